@@ -0,0 +1,127 @@
+import { AdaptiveConcurrencyOption } from './promise-concurrent-executor';
+
+/**
+ * 直近の試行の実行時間と過負荷の発生状況から並列実行数を調整する
+ * ・過負荷を示すエラーが発生した場合は即座に decrease 倍に減少する(windowSize 件の試行につき1回まで)
+ * ・windowSize 件の試行ごとに見直し、過負荷がなく実行待ちの処理があった場合に増加する
+ *   aimd: 平均実行時間が latencyThresholdMs を超えた場合は減少し、それ以外は increase だけ増加する
+ *   gradient: 最小の平均実行時間 * tolerance と平均実行時間の比率(0.5〜1)を乗じてから increase だけ増加する
+ */
+export class AdaptiveLimiter {
+
+  /** 適応的並列実行数の設定 */
+  private option: Required<Omit<AdaptiveConcurrencyOption, 'latencyThresholdMs' | 'isOverload'>> & Pick<AdaptiveConcurrencyOption, 'latencyThresholdMs'>;
+  /** 現在の並列実行数 */
+  private limit: number;
+  /** 見直し対象の試行数 */
+  private count = 0;
+  /** 見直し対象の試行の実行時間の合計(ms) */
+  private totalRunTime = 0;
+  /** 見直し対象の試行のうち、実行待ちの処理があった試行があるかどうか */
+  private saturated = false;
+  /** 見直し対象の期間に過負荷により減少したかどうか */
+  private decreased = false;
+  /** これまでの見直しで最小の平均実行時間(ms). 負荷がない状態の実行時間とみなす(gradient) */
+  private minRunTime = Infinity;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {AdaptiveConcurrencyOption} option
+   * @param {number} initial
+   */
+  constructor(option: AdaptiveConcurrencyOption, initial: number) {
+    if (!(option.min >= 1) || !(option.max >= option.min)) {
+      throw new Error('adaptive.min must be at least 1 and adaptive.max must not be less than adaptive.min.');
+    }
+    if (option.decrease != null && !(option.decrease > 0 && option.decrease < 1)) {
+      throw new Error('adaptive.decrease must be greater than 0 and less than 1.');
+    }
+    this.option = {
+      strategy: 'aimd',
+      windowSize: 20,
+      increase: 1,
+      decrease: 0.5,
+      tolerance: 1.5,
+      ...option
+    };
+    this.limit = this.clamp(initial);
+  }
+
+  /**
+   * 現在の並列実行数を返す
+   *
+   * @returns {number}
+   */
+  public getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * 並列実行数を設定する. min〜max の範囲に丸める
+   *
+   * @param {number} limit
+   * @returns {number} 設定した並列実行数
+   */
+  public setLimit(limit: number): number {
+    this.limit = this.clamp(limit);
+    return this.limit;
+  }
+
+  /**
+   * 試行の結果を記録し、並列実行数を見直す
+   *
+   * @param {number} runTime 試行の実行時間(ms)
+   * @param {boolean} overload 過負荷を示すエラーで失敗したかどうか
+   * @param {boolean} saturated 実行待ちの処理があるかどうか
+   * @returns {number | undefined} 並列実行数を変更した場合は変更後の値
+   */
+  public record(runTime: number, overload: boolean, saturated: boolean): number | undefined {
+    const previous = this.limit;
+    this.count++;
+    this.totalRunTime += runTime;
+    this.saturated = this.saturated || saturated;
+    if (overload && !this.decreased) {
+      this.decreased = true;
+      this.limit = this.clamp(Math.floor(this.limit * this.option.decrease));
+    }
+    if (this.count >= this.option.windowSize) {
+      this.review();
+    }
+    return this.limit !== previous ? this.limit : undefined;
+  }
+
+  /**
+   * 見直し対象の期間の結果から並列実行数を見直し、次の期間を開始する
+   */
+  private review(): void {
+    const average = this.totalRunTime / this.count;
+    this.minRunTime = Math.min(this.minRunTime, average);
+    if (!this.decreased) {
+      const { strategy, latencyThresholdMs, increase, decrease, tolerance } = this.option;
+      if (strategy === 'gradient') {
+        const gradient = average > 0 ? Math.max(0.5, Math.min(1, this.minRunTime * tolerance / average)) : 1;
+        const next = Math.floor(this.limit * gradient);
+        this.limit = this.clamp(this.saturated ? next + increase : next);
+      } else if (latencyThresholdMs != null && average > latencyThresholdMs) {
+        this.limit = this.clamp(Math.floor(this.limit * decrease));
+      } else if (this.saturated) {
+        this.limit = this.clamp(this.limit + increase);
+      }
+    }
+    this.count = 0;
+    this.totalRunTime = 0;
+    this.saturated = false;
+    this.decreased = false;
+  }
+
+  /**
+   * min〜max の範囲に丸める
+   *
+   * @param {number} limit
+   * @returns {number}
+   */
+  private clamp(limit: number): number {
+    return Math.max(this.option.min, Math.min(this.option.max, Math.floor(limit)));
+  }
+}
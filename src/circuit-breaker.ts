@@ -0,0 +1,196 @@
+import { CircuitBreakerOption, CircuitState } from './promise-concurrent-executor';
+
+/**
+ * 試行の結果
+ */
+interface Outcome {
+  /** 記録した時刻 */
+  at: number;
+  /** 失敗したかどうか */
+  failed: boolean;
+}
+
+/**
+ * 直近の試行の失敗率から処理の開始を遮断する
+ * ・closed: 直近windowMsの試行がminimumRequests件以上あり、失敗率がfailureThreshold以上になった場合にopenへ移行する
+ * ・open: cooldownMsが経過するまで処理を開始しない. 経過後はhalf-openへ移行する
+ * ・half-open: halfOpenProbes件のみ開始し、すべて成功した場合はclosedへ、いずれかが失敗した場合はopenへ移行する
+ * 試行の結果は、開始した時点から状態が変化していない場合のみ判定に使用する(half-open では試行として開始したもののみ数える)
+ */
+export class CircuitBreaker {
+
+  /** サーキットブレーカー設定 */
+  private option: Required<Omit<CircuitBreakerOption, 'isFailure' | 'whenOpen'>>;
+  /** 状態が変化した場合に呼び出す */
+  private onStateChange: (previous: CircuitState, state: CircuitState) => void;
+  /** 現在の状態 */
+  private state: CircuitState = 'closed';
+  /** 期間内の試行の結果(closed) */
+  private outcomes: Outcome[] = [];
+  /** 期間内の試行の結果の先頭位置(closed) */
+  private head = 0;
+  /** 期間内の失敗数(closed) */
+  private failures = 0;
+  /** openへ移行した時刻 */
+  private openedAt = 0;
+  /** 開始した試行の数(half-open) */
+  private probesStarted = 0;
+  /** 成功した試行の数(half-open) */
+  private probesSucceeded = 0;
+  /** 状態の世代. 状態が変化するごとに増加する */
+  private generation = 0;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {CircuitBreakerOption} option
+   * @param {(previous: CircuitState, state: CircuitState) => void} onStateChange
+   */
+  constructor(option: CircuitBreakerOption, onStateChange: (previous: CircuitState, state: CircuitState) => void) {
+    if (!(option.failureThreshold > 0 && option.failureThreshold <= 1)) {
+      throw new Error('circuitBreaker.failureThreshold must be greater than 0 and at most 1.');
+    }
+    this.option = {
+      minimumRequests: 10,
+      windowMs: 10 * 1000,
+      cooldownMs: 30 * 1000,
+      halfOpenProbes: 1,
+      ...option
+    };
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * 現在の状態を返す. open で cooldownMs が経過している場合は half-open へ移行する
+   *
+   * @param {number} [now]
+   * @returns {CircuitState}
+   */
+  public getState(now = Date.now()): CircuitState {
+    if (this.state === 'open' && now - this.openedAt >= this.option.cooldownMs) {
+      this.probesStarted = 0;
+      this.probesSucceeded = 0;
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * 処理を開始できるようになるまでの時間を返す
+   *
+   * @param {number} [now]
+   * @returns {number} 開始できる場合は0. half-open で試行の結果を待っている場合はInfinity
+   */
+  public getWaitMs(now = Date.now()): number {
+    switch (this.getState(now)) {
+      case 'open':
+        return this.openedAt + this.option.cooldownMs - now;
+      case 'half-open':
+        return this.probesStarted < this.option.halfOpenProbes ? 0 : Infinity;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 処理の開始を記録する. half-open の場合は試行の枠を消費する
+   *
+   * @returns {number} 開始した時点の状態の世代. 結果を記録する際に指定する
+   */
+  public acquire(): number {
+    if (this.state === 'half-open') {
+      this.probesStarted++;
+    }
+    return this.generation;
+  }
+
+  /**
+   * 試行の結果を記録する
+   * 開始した後に状態が変化した試行の結果は判定に使用しない
+   *
+   * @param {'success' | 'failure' | 'ignored'} outcome ignored: 成功・失敗のいずれにも数えない(中断された場合等)
+   * @param {number} generation acquire() が返した世代
+   * @param {number} [now]
+   */
+  public record(outcome: 'success' | 'failure' | 'ignored', generation: number, now = Date.now()): void {
+    if (generation !== this.generation) {
+      // open へ移行する前に開始した試行の結果を、half-open の試行や再度 closed へ移行した後の判定に使用しない
+      return;
+    }
+    switch (this.state) {
+      case 'closed':
+        if (outcome !== 'ignored') {
+          this.recordOutcome(outcome === 'failure', now);
+        }
+        break;
+      case 'half-open':
+        if (outcome === 'failure') {
+          this.open(now);
+        } else if (outcome === 'ignored') {
+          // 結果が得られなかった試行の枠を戻す
+          this.probesStarted = Math.max(0, this.probesStarted - 1);
+        } else if (++this.probesSucceeded >= this.option.halfOpenProbes) {
+          this.transition('closed');
+        }
+        break;
+      default:
+        // open の間は試行を開始しない
+    }
+  }
+
+  /**
+   * closed での試行の結果を記録し、失敗率が閾値以上になった場合は open へ移行する
+   *
+   * @param {boolean} failed
+   * @param {number} now
+   */
+  private recordOutcome(failed: boolean, now: number): void {
+    const { windowMs, minimumRequests, failureThreshold } = this.option;
+    this.outcomes.push({ at: now, failed });
+    if (failed) {
+      this.failures++;
+    }
+    // 期間外になった結果を取り除く
+    while (this.head < this.outcomes.length && this.outcomes[this.head].at <= now - windowMs) {
+      if (this.outcomes[this.head].failed) {
+        this.failures--;
+      }
+      this.head++;
+    }
+    if (this.head > 1024 && this.head * 2 > this.outcomes.length) {
+      this.outcomes.splice(0, this.head);
+      this.head = 0;
+    }
+    const count = this.outcomes.length - this.head;
+    if (count >= minimumRequests && this.failures / count >= failureThreshold) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * open へ移行する
+   *
+   * @param {number} now
+   */
+  private open(now: number): void {
+    this.openedAt = now;
+    this.outcomes.length = 0;
+    this.head = 0;
+    this.failures = 0;
+    this.transition('open');
+  }
+
+  /**
+   * 状態を変更する
+   *
+   * @param {CircuitState} state
+   */
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    if (previous !== state) {
+      this.generation++;
+      this.onStateChange(previous, state);
+    }
+  }
+}
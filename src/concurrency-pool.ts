@@ -0,0 +1,163 @@
+import { ConcurrencyPoolOption } from './promise-concurrent-executor';
+
+/**
+ * 複数の PromiseConcurrentExecutor で共有する並列実行数の上限
+ * 各実行者は自身の並列実行数に加えてプールの枠を取得してから処理を開始する
+ * 親のプールを指定した場合は、親の枠も同時に取得する(プロセス全体 → サービス → エンドポイント等)
+ * 枠が解放された場合は、枠の空きを待っている実行者へ待ち始めた順に通知する
+ */
+export class ConcurrencyPool {
+
+  /** 並列実行数の上限 */
+  private capacity: number;
+  /** 親のプール */
+  private parent?: ConcurrencyPool;
+  /** 取得されている枠の合計(weightの合計) */
+  private used = 0;
+  /** 枠の空きを待っているリスナー. 登録順に通知する */
+  private waiting = new Set<() => void>();
+  /** 親のプールの枠に空きができた場合に通知する */
+  private onParentAvailable = () => this.notify();
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} capacity
+   * @param {ConcurrencyPoolOption} [option]
+   */
+  constructor(capacity: number, option?: ConcurrencyPoolOption) {
+    this.capacity = validateCapacity(capacity);
+    this.parent = option?.parent;
+  }
+
+  /**
+   * 並列実行数の上限を返す
+   *
+   * @returns {number}
+   */
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * 並列実行数の上限を変更する. 増加した場合は枠の空きを待っている実行者へ通知する
+   * 減少した場合も取得済みの枠は解放されるまで有効とする
+   *
+   * @param {number} capacity
+   */
+  public setCapacity(capacity: number): void {
+    this.capacity = validateCapacity(capacity);
+    this.notify();
+  }
+
+  /**
+   * 取得されている枠の合計を返す. 子のプールを経由して取得された枠を含む
+   *
+   * @returns {number}
+   */
+  public getUsed(): number {
+    return this.used;
+  }
+
+  /**
+   * 取得できる枠の数を返す. 親のプールの空きを含めた最小値とする
+   *
+   * @returns {number}
+   */
+  public getAvailable(): number {
+    const available = Math.max(0, this.capacity - this.used);
+    return this.parent != null ? Math.min(available, this.parent.getAvailable()) : available;
+  }
+
+  /**
+   * 取得できる枠の最大値を返す. 親のプールを含めた上限の最小値とする
+   *
+   * @returns {number}
+   */
+  public getLimit(): number {
+    return this.parent != null ? Math.min(this.capacity, this.parent.getLimit()) : this.capacity;
+  }
+
+  /**
+   * 親のプールを含めて枠を取得できるかどうかを返す
+   *
+   * @param {number} [weight]
+   * @returns {boolean}
+   */
+  public canAcquire(weight = 1): boolean {
+    return this.getAvailable() >= weight;
+  }
+
+  /**
+   * 親のプールを含めて枠を取得する
+   *
+   * @param {number} [weight]
+   * @returns {boolean} 空きが足りない場合は取得せずにfalse
+   */
+  public tryAcquire(weight = 1): boolean {
+    if (!this.canAcquire(weight)) {
+      return false;
+    }
+    for (let pool: ConcurrencyPool | undefined = this; pool != null; pool = pool.parent) {
+      pool.used += weight;
+    }
+    return true;
+  }
+
+  /**
+   * 取得した枠を解放し、枠の空きを待っている実行者へ通知する
+   * 親のプールの待機者へ先に通知する
+   *
+   * @param {number} [weight]
+   */
+  public release(weight = 1): void {
+    this.used = Math.max(0, this.used - weight);
+    if (this.parent != null) {
+      this.parent.release(weight);
+    }
+    this.notify();
+  }
+
+  /**
+   * 枠に空きができた時点で一度だけ呼び出すリスナーを登録する
+   * 呼び出された時点で再度取得できなかった場合は、改めて登録する
+   *
+   * @param {() => void} listener
+   */
+  public onAvailable(listener: () => void): void {
+    this.waiting.add(listener);
+    // 親のプールの空きを待っている場合に備えて、親のプールにも通知を依頼する
+    this.parent?.onAvailable(this.onParentAvailable);
+  }
+
+  /**
+   * 枠の空きを待っているリスナーを、空きがある間、登録順に呼び出す
+   */
+  private notify(): void {
+    for (const listener of [...this.waiting]) {
+      if (this.getAvailable() <= 0) {
+        break;
+      }
+      // 呼び出したリスナーの中で解放された場合に通知済みのリスナーを重複して呼び出さない
+      if (this.waiting.delete(listener)) {
+        listener();
+      }
+    }
+    if (this.waiting.size > 0) {
+      this.parent?.onAvailable(this.onParentAvailable);
+    }
+  }
+}
+
+/**
+ * 並列実行数の上限を検証する
+ *
+ * @param {number} capacity
+ * @returns {number}
+ */
+function validateCapacity(capacity: number): number {
+  if (!(capacity >= 1)) {
+    throw new Error('ConcurrencyPool capacity must be at least 1.');
+  }
+  return capacity;
+}
@@ -0,0 +1,209 @@
+/**
+ * 処理がタイムアウトした場合に送出するエラー
+ */
+export class TaskTimeoutError extends Error {
+
+  /** タイムアウト時間(ms) */
+  public readonly timeoutMs: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} timeoutMs
+   */
+  constructor(timeoutMs: number) {
+    super(`Task timed out after ${timeoutMs}ms.`);
+    this.name = 'TaskTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * 処理が中断された場合に送出するエラー
+ */
+export class TaskAbortedError extends Error {
+
+  /** 中断理由. AbortController.abort() に指定された値 */
+  public readonly reason: unknown;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {unknown} [reason]
+   */
+  constructor(reason?: unknown) {
+    super('Task was aborted.');
+    this.name = 'TaskAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * リトライ設定のある処理が最終的に失敗した場合に送出するエラー
+ * errors には各試行で発生したエラーを試行順に保持する
+ * AggregateError(ES2021) が存在しない環境でも読み込めるよう Error を継承する
+ */
+export class TaskRetryError extends Error {
+
+  /** 各試行で発生したエラー(試行順) */
+  public readonly errors: unknown[];
+
+  /**
+   * コンストラクタ
+   *
+   * @param {unknown[]} errors
+   */
+  constructor(errors: unknown[]) {
+    super(`Task failed after ${errors.length} attempt(s).`);
+    this.name = 'TaskRetryError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * サーキットブレーカーが開いているため、処理を開始せずに失敗させた場合に送出するエラー
+ */
+export class CircuitOpenError extends Error {
+
+  /** half-open へ移行するまでの時間(ms). half-open で試行中の場合は0 */
+  public readonly retryAfterMs: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} retryAfterMs
+   */
+  constructor(retryAfterMs: number) {
+    super('Circuit is open.');
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * 処理の分類. 各処理は実行一覧への登録順(index)で表す
+ */
+export interface FailFastSummary {
+  /** 成功した処理 */
+  fulfilled: number[];
+  /** 失敗した処理 */
+  rejected: number[];
+  /** 実行中だった処理 */
+  running: number[];
+  /** 開始されなかった処理 */
+  notStarted: number[];
+}
+
+/**
+ * failFast を指定した executeAll() で処理が失敗した場合に送出するエラー
+ * cause には最初に失敗した処理のエラーを保持する
+ */
+export class FailFastError extends Error implements FailFastSummary {
+
+  /** 成功した処理 */
+  public readonly fulfilled: number[];
+  /** 失敗した処理 */
+  public readonly rejected: number[];
+  /** 実行中だった処理. 中断せずに完了を待つ */
+  public readonly running: number[];
+  /** 開始されなかった処理 */
+  public readonly notStarted: number[];
+  /** 実行中だった処理が完了した時点の、すべての処理の結果(登録順) */
+  public readonly settled: Promise<PromiseSettledResult<unknown>[]>;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {unknown} cause
+   * @param {FailFastSummary} summary
+   * @param {Promise<PromiseSettledResult<unknown>[]>} settled
+   */
+  constructor(cause: unknown, summary: FailFastSummary, settled: Promise<PromiseSettledResult<unknown>[]>) {
+    super(`Execution stopped after a task failed. (fulfilled: ${summary.fulfilled.length}, rejected: ${summary.rejected.length}, running: ${summary.running.length}, not started: ${summary.notStarted.length})`);
+    this.name = 'FailFastError';
+    // Error の cause オプション(ES2022)に対応していない環境でも保持する
+    this.cause = cause;
+    this.fulfilled = summary.fulfilled;
+    this.rejected = summary.rejected;
+    this.running = summary.running;
+    this.notStarted = summary.notStarted;
+    this.settled = settled;
+  }
+}
+
+/**
+ * 依存する処理が失敗したため、処理を開始せずに取り止めた場合に送出するエラー
+ * cause には依存する処理のエラーを保持する
+ */
+export class TaskSkippedError extends Error {
+
+  /** 失敗した依存する処理の識別子 */
+  public readonly dependencyId: string | number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {string | number} dependencyId
+   * @param {unknown} cause
+   */
+  constructor(dependencyId: string | number, cause: unknown) {
+    super(`Task was skipped because its dependency "${dependencyId}" was rejected.`);
+    this.name = 'TaskSkippedError';
+    this.cause = cause;
+    this.dependencyId = dependencyId;
+  }
+}
+
+/**
+ * 処理の依存関係が不正な場合に、処理を開始する前に送出するエラー
+ */
+export class DependencyGraphError extends Error {
+
+  /** 存在しない依存先の識別子 */
+  public readonly unknownIds: (string | number)[];
+  /** 複数の処理に指定されているため特定できない依存先の識別子 */
+  public readonly duplicateIds: (string | number)[];
+  /** 循環している依存関係. 先頭と末尾は同じ識別子となる. 循環がない場合は空 */
+  public readonly cycle: (string | number)[];
+
+  /**
+   * コンストラクタ
+   *
+   * @param {(string | number)[]} unknownIds
+   * @param {(string | number)[]} duplicateIds
+   * @param {(string | number)[]} cycle
+   */
+  constructor(unknownIds: (string | number)[], duplicateIds: (string | number)[], cycle: (string | number)[]) {
+    const details = [
+      unknownIds.length > 0 ? `unknown ids: ${unknownIds.join(', ')}` : '',
+      duplicateIds.length > 0 ? `duplicate ids: ${duplicateIds.join(', ')}` : '',
+      cycle.length > 0 ? `cycle: ${cycle.join(' -> ')}` : ''
+    ].filter(detail => detail !== '');
+    super(`Invalid task dependencies. (${details.join(', ')})`);
+    this.name = 'DependencyGraphError';
+    this.unknownIds = unknownIds;
+    this.duplicateIds = duplicateIds;
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * 処理を実行中のワーカースレッドが終了した場合に送出するエラー
+ * ワーカー内で捕捉されない例外が発生した場合は、このエラーではなくその例外でrejectする
+ */
+export class WorkerExitError extends Error {
+
+  /** ワーカースレッドの終了コード */
+  public readonly exitCode: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} exitCode
+   */
+  constructor(exitCode: number) {
+    super(`Worker exited with code ${exitCode} while running a task.`);
+    this.name = 'WorkerExitError';
+    this.exitCode = exitCode;
+  }
+}
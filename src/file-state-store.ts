@@ -0,0 +1,117 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { StateStore, TaskRecord } from './promise-concurrent-executor';
+
+/**
+ * 処理の状態をローカルファイルに保存する(Node.js のみ)
+ * 状態の変化を1行1件のJSONとして追記し、読み込み時に key ごとの最新の状態へまとめる
+ * 書き込みはまとめて行うため、save() の完了を待たずに呼び出してよい
+ * 書き込みに失敗した行は書き込み待ちに戻し、次の save() / flush() で再度書き込む
+ */
+export class FileStateStore implements StateStore {
+
+  /** 保存先のファイル */
+  private path: string;
+  /** 書き込み待ちの行 */
+  private lines: string[] = [];
+  /** 書き込み中の処理 */
+  private writing?: Promise<void>;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {string} path
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * 処理の状態を追記する
+   * Error はJSONに変換できないため、name / message / stack を持つオブジェクトとして保存する
+   *
+   * @param {TaskRecord} record
+   * @returns {Promise<void>} 書き込みが完了した時点でresolveする. JSONに変換できない場合・書き込みに失敗した場合はreject
+   */
+  public async save(record: TaskRecord): Promise<void> {
+    this.lines.push(JSON.stringify(record, (_, value) => value instanceof Error
+      ? { name: value.name, message: value.message, stack: value.stack }
+      : value));
+    if (this.writing == null) {
+      this.writing = this.write();
+    }
+    return this.writing;
+  }
+
+  /**
+   * 書き込み待ちの状態がすべて書き込まれるまで待機する
+   *
+   * @returns {Promise<void>}
+   */
+  public async flush(): Promise<void> {
+    if (this.writing == null && this.lines.length > 0) {
+      this.writing = this.write();
+    }
+    await this.writing;
+  }
+
+  /**
+   * 保存されているすべての処理の状態を key の昇順で返す
+   * 書き込み中に終了した場合の不完全な行は読み飛ばす
+   *
+   * @returns {Promise<TaskRecord[]>} ファイルが存在しない場合は空
+   */
+  public async load(): Promise<TaskRecord[]> {
+    await this.flush();
+    const records = new Map<number, TaskRecord>();
+    try {
+      await fs.access(this.path);
+    } catch {
+      return [];
+    }
+    // 大量の記録を1つの文字列として読み込まないように、1行ずつ読み込む
+    const reader = createInterface({ input: createReadStream(this.path, { encoding: 'utf8' }), crlfDelay: Infinity });
+    for await (const line of reader) {
+      let record: TaskRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      records.set(record.key, record);
+    }
+    return [...records.values()].sort((a, b) => a.key - b.key);
+  }
+
+  /**
+   * 保存されているすべての処理の状態を破棄する
+   *
+   * @returns {Promise<void>}
+   */
+  public async clear(): Promise<void> {
+    await this.flush();
+    await fs.rm(this.path, { force: true });
+  }
+
+  /**
+   * 書き込み待ちの行をまとめて追記する
+   *
+   * @returns {Promise<void>}
+   */
+  private async write(): Promise<void> {
+    try {
+      while (this.lines.length > 0) {
+        const lines = this.lines.splice(0);
+        try {
+          await fs.appendFile(this.path, lines.join('\n') + '\n', 'utf8');
+        } catch (error) {
+          // 書き込み中に追加された行より前に戻し、記録の順序を維持する
+          this.lines.unshift(...lines);
+          throw error;
+        }
+      }
+    } finally {
+      this.writing = undefined;
+    }
+  }
+}
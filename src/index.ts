@@ -1 +1,9 @@
 export * from './promise-concurrent-executor';
+export * from './concurrency-pool';
+export * from './errors';
+export * from './limit';
+export * from './memory-result-cache-store';
+export * from './memory-state-store';
+export * from './mutex';
+export * from './semaphore';
+export * from './typed-event-emitter';
@@ -0,0 +1,29 @@
+import { LimitFunction, SemaphoreOption } from './promise-concurrent-executor';
+import { Semaphore } from './semaphore';
+
+/**
+ * 渡した関数を並列実行数の上限内で実行する関数を生成する
+ * 上限に達している場合は呼び出した順に待機し、空きができた時点で実行する
+ *
+ * @param {number} concurrency
+ * @param {SemaphoreOption} [option]
+ * @returns {LimitFunction}
+ */
+export function limit(concurrency: number, option?: SemaphoreOption): LimitFunction {
+  const semaphore = new Semaphore(concurrency, option);
+  let activeCount = 0;
+  const limited = <A extends unknown[], R>(fn: (...args: A) => R | PromiseLike<R>, ...args: A): Promise<Awaited<R>> => {
+    return semaphore.runExclusive(async () => {
+      activeCount++;
+      try {
+        return await fn(...args);
+      } finally {
+        activeCount--;
+      }
+    });
+  };
+  return Object.defineProperties(limited, {
+    activeCount: { get: () => activeCount },
+    pendingCount: { get: () => semaphore.getPendingCount() }
+  }) as LimitFunction;
+}
@@ -0,0 +1,67 @@
+import { ResultCacheStore } from './promise-concurrent-executor';
+
+/**
+ * 保持している処理結果
+ */
+interface CacheEntry {
+  /** 処理結果 */
+  result: PromiseSettledResult<unknown>;
+  /** 有効期限(この時刻を過ぎた場合は破棄する) */
+  expiresAt: number;
+}
+
+/**
+ * 処理結果をメモリ上に保持するキャッシュ
+ * resultCache.store を指定しない場合に利用する
+ * 期限切れの結果は参照された時点で破棄する
+ */
+export class MemoryResultCacheStore implements ResultCacheStore {
+
+  /** キーごとの処理結果 */
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * 処理結果を返す
+   *
+   * @param {string} key
+   * @returns {PromiseSettledResult<unknown> | undefined} 保持していない場合・期限切れの場合はundefined
+   */
+  public get(key: string): PromiseSettledResult<unknown> | undefined {
+    const entry = this.entries.get(key);
+    if (entry == null) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  /**
+   * 処理結果を保持する
+   *
+   * @param {string} key
+   * @param {PromiseSettledResult<unknown>} result
+   * @param {number} ttlMs
+   */
+  public set(key: string, result: PromiseSettledResult<unknown>, ttlMs: number): void {
+    this.entries.set(key, { result, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * 処理結果を破棄する
+   *
+   * @param {string} key
+   */
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * すべての処理結果を破棄する
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,36 @@
+import { StateStore, TaskRecord } from './promise-concurrent-executor';
+
+/**
+ * 処理の状態をメモリ上に保持する
+ * プロセスの終了後は再開できないため、同じプロセス内での再実行やテストに利用する
+ */
+export class MemoryStateStore implements StateStore {
+
+  /** key ごとの処理の状態 */
+  private records = new Map<number, TaskRecord>();
+
+  /**
+   * 処理の状態を保存する
+   *
+   * @param {TaskRecord} record
+   */
+  public save(record: TaskRecord): void {
+    this.records.set(record.key, record);
+  }
+
+  /**
+   * 保存されているすべての処理の状態を key の昇順で返す
+   *
+   * @returns {TaskRecord[]}
+   */
+  public load(): TaskRecord[] {
+    return [...this.records.values()].sort((a, b) => a.key - b.key);
+  }
+
+  /**
+   * 保存されているすべての処理の状態を破棄する
+   */
+  public clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,50 @@
+import { ReleaseFunction, SemaphoreAcquireOption } from './promise-concurrent-executor';
+import { Semaphore } from './semaphore';
+
+/**
+ * 同時に1つの処理のみ実行できるようにする(容量1の Semaphore)
+ */
+export class Mutex {
+
+  /** ロックの割り当てを行う */
+  private semaphore = new Semaphore(1);
+
+  /**
+   * ロックされているかどうかを返す
+   *
+   * @returns {boolean}
+   */
+  public isLocked(): boolean {
+    return this.semaphore.getAvailable() === 0;
+  }
+
+  /**
+   * ロックを取得する. ロックされている場合は解放されるまで待機する
+   *
+   * @param {Omit<SemaphoreAcquireOption, 'weight'>} [option]
+   * @returns {Promise<ReleaseFunction>} ロックを解放する関数
+   */
+  public acquire(option?: Omit<SemaphoreAcquireOption, 'weight'>): Promise<ReleaseFunction> {
+    return this.semaphore.acquire({ ...option, weight: 1 });
+  }
+
+  /**
+   * 待機せずにロックを取得する
+   *
+   * @returns {ReleaseFunction | undefined} 取得できない場合はundefined
+   */
+  public tryAcquire(): ReleaseFunction | undefined {
+    return this.semaphore.tryAcquire();
+  }
+
+  /**
+   * ロックを取得してから関数を実行し、完了後に解放する
+   *
+   * @param {() => T | PromiseLike<T>} fn
+   * @param {Omit<SemaphoreAcquireOption, 'weight'>} [option]
+   * @returns {Promise<Awaited<T>>}
+   */
+  public runExclusive<T>(fn: () => T | PromiseLike<T>, option?: Omit<SemaphoreAcquireOption, 'weight'>): Promise<Awaited<T>> {
+    return this.semaphore.runExclusive(fn, { ...option, weight: 1 });
+  }
+}
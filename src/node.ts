@@ -0,0 +1,2 @@
+export * from './file-state-store';
+export * from './worker-thread-executor';
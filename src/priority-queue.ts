@@ -0,0 +1,138 @@
+/**
+ * 二分ヒープによる優先度付きキュー
+ * 比較関数の結果が負になる要素ほど先に取り出される
+ */
+export class PriorityQueue<T> {
+
+  /** ヒープ */
+  private heap: T[] = [];
+  /** 比較関数 */
+  private compare: (a: T, b: T) => number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {(a: T, b: T) => number} compare
+   */
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  /**
+   * 要素数を返す
+   *
+   * @returns {number}
+   */
+  public size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * 要素を追加する
+   *
+   * @param {T} item
+   */
+  public push(item: T): void {
+    this.heap.push(item);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  /**
+   * 先頭の要素を取り出さずに返す
+   *
+   * @returns {T | undefined}
+   */
+  public peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  /**
+   * 先頭の要素を取り出す
+   *
+   * @returns {T | undefined}
+   */
+  public pop(): T | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0) {
+      this.heap[0] = last!;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  /**
+   * 比較に用いる値が変更された要素の位置を更新する
+   *
+   * @param {T} item
+   * @returns {boolean} 要素が存在した場合はtrue
+   */
+  public update(item: T): boolean {
+    const index = this.heap.indexOf(item);
+    if (index < 0) {
+      return false;
+    }
+    this.siftDown(this.siftUp(index));
+    return true;
+  }
+
+  /**
+   * すべての要素を返す. 順序は保証しない
+   *
+   * @returns {T[]}
+   */
+  public toArray(): T[] {
+    return this.heap.slice();
+  }
+
+  /**
+   * すべての要素を削除する
+   */
+  public clear(): void {
+    this.heap.length = 0;
+  }
+
+  /**
+   * 指定位置の要素を親方向へ移動する
+   *
+   * @param {number} index
+   * @returns {number} 移動後の位置
+   */
+  private siftUp(index: number): number {
+    const item = this.heap[index];
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(item, this.heap[parent]) >= 0) {
+        break;
+      }
+      this.heap[index] = this.heap[parent];
+      index = parent;
+    }
+    this.heap[index] = item;
+    return index;
+  }
+
+  /**
+   * 指定位置の要素を子方向へ移動する
+   *
+   * @param {number} index
+   */
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    const item = this.heap[index];
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) {
+        break;
+      }
+      const right = left + 1;
+      const child = right < length && this.compare(this.heap[right], this.heap[left]) < 0 ? right : left;
+      if (this.compare(this.heap[child], item) >= 0) {
+        break;
+      }
+      this.heap[index] = this.heap[child];
+      index = child;
+    }
+    this.heap[index] = item;
+  }
+}
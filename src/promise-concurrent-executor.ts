@@ -1,34 +1,752 @@
+import { AdaptiveLimiter } from './adaptive-limiter';
+import { CircuitBreaker } from './circuit-breaker';
+import { ConcurrencyPool } from './concurrency-pool';
+import { CircuitOpenError, DependencyGraphError, FailFastError, FailFastSummary, TaskAbortedError, TaskRetryError, TaskSkippedError, TaskTimeoutError } from './errors';
+import { MemoryResultCacheStore } from './memory-result-cache-store';
+import { PriorityQueue } from './priority-queue';
+import { RateLimiter } from './rate-limiter';
+import { StatsCollector } from './stats-collector';
+import { TypedEventEmitter } from './typed-event-emitter';
+
+/**
+ * リトライ設定
+ * 待機時間は minDelayMs * factor ^ (試行回数 - 1) を maxDelayMs で打ち切った値となる
+ */
+export interface RetryOption {
+  /** 最大リトライ回数. 未指定の場合は0(リトライしない) */
+  retries?: number;
+  /** 初回リトライまでの待機時間(ms). 未指定の場合は100ms */
+  minDelayMs?: number;
+  /** 待機時間の上限(ms). 未指定の場合は10000ms */
+  maxDelayMs?: number;
+  /** 待機時間の増加倍率. 未指定の場合は2 */
+  factor?: number;
+  /** trueの場合は待機時間を0〜算出値の範囲でランダムに分散する(full jitter) */
+  jitter?: boolean;
+  /** リトライするかどうかを判定する. attemptは失敗した試行の回数(1始まり). 未指定の場合は常にリトライする */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * 流量制限設定
+ */
+export interface RateLimitOption {
+  /** 期間あたりに開始できる件数 */
+  limit: number;
+  /** 期間(ms) */
+  windowMs: number;
+  /**
+   * 制限方式. 未指定の場合は'sliding'
+   * ・sliding: 直近windowMsの間に開始した件数をlimit以下に抑える
+   * ・token-bucket: windowMsあたりlimit件の割合で枠を補充する. 未使用の枠はlimit件まで蓄積できる
+   */
+  strategy?: 'sliding' | 'token-bucket';
+}
+
+/**
+ * 適応的並列実行数の設定
+ * 直近の試行の実行時間と過負荷を示すエラーの発生状況から、並列実行数を min〜max の範囲で自動的に調整する
+ */
+export interface AdaptiveConcurrencyOption {
+  /** 並列実行数の最小値 */
+  min: number;
+  /** 並列実行数の最大値 */
+  max: number;
+  /**
+   * 調整方式. 未指定の場合は'aimd'
+   * ・aimd: 実行待ちの処理がある間は増加し、過負荷を示すエラーの発生時・平均実行時間が latencyThresholdMs を超えた場合は減少する
+   * ・gradient: 最小の平均実行時間に対する平均実行時間の増加に応じて減少する
+   */
+  strategy?: 'aimd' | 'gradient';
+  /** 並列実行数を見直す間隔(試行数). 未指定の場合は20 */
+  windowSize?: number;
+  /** 見直しごとの増加数. 未指定の場合は1 */
+  increase?: number;
+  /** 減少時に乗じる値(0より大きく1未満). 未指定の場合は0.5 */
+  decrease?: number;
+  /** aimd: 平均実行時間がこの値(ms)を超えた場合は過負荷とみなす. 未指定の場合は実行時間で判定しない */
+  latencyThresholdMs?: number;
+  /** gradient: 最小の平均実行時間の何倍までを許容するか. 未指定の場合は1.5 */
+  tolerance?: number;
+  /** 過負荷を示すエラーかどうかを判定する. 未指定の場合は TaskTimeoutError のみ過負荷とみなす */
+  isOverload?: (error: unknown) => boolean;
+}
+
+/**
+ * サーキットブレーカーの状態
+ * ・closed: 通常どおり処理を開始する
+ * ・open: 処理を開始しない
+ * ・half-open: 一部の処理のみ開始し、その結果により closed / open へ移行する
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * サーキットブレーカー設定
+ */
+export interface CircuitBreakerOption {
+  /** open へ移行する失敗率(0より大きく1以下) */
+  failureThreshold: number;
+  /** 失敗率を判定するために必要な、直近 windowMs の試行数. 未指定の場合は10 */
+  minimumRequests?: number;
+  /** 失敗率を算出する期間(ms). 未指定の場合は10000 */
+  windowMs?: number;
+  /** open から half-open へ移行するまでの時間(ms). 未指定の場合は30000 */
+  cooldownMs?: number;
+  /** half-open で開始する処理の数. すべて成功した場合に closed へ移行する. 未指定の場合は1 */
+  halfOpenProbes?: number;
+  /**
+   * 開始できない間の実行待ちの処理の扱い. 未指定の場合は'reject'
+   * ・reject: 開始せずに CircuitOpenError でrejectする
+   * ・hold: half-open での試行が成功して closed へ移行するまで待機する
+   */
+  whenOpen?: 'reject' | 'hold';
+  /** 失敗として数えるエラーかどうかを判定する. 未指定の場合は TaskAbortedError 以外のエラーを失敗とみなす */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * 共有する並列実行数の上限の設定
+ */
+export interface ConcurrencyPoolOption {
+  /** 親のプール. 枠を取得する場合は親のプールの枠も同時に取得する */
+  parent?: ConcurrencyPool;
+}
+
+/**
+ * Semaphore の設定
+ */
+export interface SemaphoreOption {
+  /** 共有する並列実行数の上限. Semaphore の容量と併せて適用する */
+  pool?: ConcurrencyPool;
+}
+
+/**
+ * Semaphore.acquire() のオプション
+ */
+export interface SemaphoreAcquireOption {
+  /** 取得する枠の数. 未指定の場合は1 */
+  weight?: number;
+  /** 優先度. 値が大きいほど先に取得する. 未指定の場合は0 */
+  priority?: number;
+  /** 取得前にabortされた場合は待機をやめて TaskAbortedError でrejectする. 取得後のabortは無視する */
+  signal?: AbortSignal;
+}
+
+/**
+ * 取得した枠を解放する関数. 2回目以降の呼び出しは何もしない
+ */
+export type ReleaseFunction = () => void;
+
+/**
+ * limit() が返す関数
+ */
+export interface LimitFunction {
+  /** 並列実行数の上限内で関数を実行し、その結果を返す */
+  <A extends unknown[], R>(fn: (...args: A) => R | PromiseLike<R>, ...args: A): Promise<Awaited<R>>;
+  /** 実行中の関数の数 */
+  readonly activeCount: number;
+  /** 実行を待っている関数の数 */
+  readonly pendingCount: number;
+}
+
+/**
+ * 流量制限の残り枠
+ */
+export interface RateLimitBudget {
+  /** 期間あたりに開始できる件数 */
+  limit: number;
+  /** 現在開始できる件数 */
+  remaining: number;
+  /** 次に開始できるようになるまでの時間(ms). 現在開始できる場合は0 */
+  waitMs: number;
+}
+
+/**
+ * 実行一覧への登録順を付与した処理結果
+ */
+export type IndexedSettledResult<T> = PromiseSettledResult<T> & {
+  /** 実行一覧への登録順(0始まり) */
+  index: number;
+};
+
+/**
+ * map() / mapIterable() のオプション
+ */
+export interface MapOption {
+  /** 並列実行数. 未指定の場合は1 */
+  concurrency?: number;
+  /**
+   * 先読みする件数. 未指定の場合は並列実行数と同じ
+   * 次に返却する結果より先に完了した結果と実行中の処理の合計が concurrency + readAhead 件に達した場合は、要素の読み込みを停止する
+   */
+  readAhead?: number;
+}
+
+/**
+ * 処理に関するイベントの共通項目
+ */
+export interface TaskEvent {
+  /** 実行一覧への登録順(0始まり) */
+  index: number;
+  /** 関数のラベル */
+  label?: string;
+}
+
+/**
+ * taskStart イベント
+ */
+export interface TaskStartEvent extends TaskEvent {
+  /** 試行回数(1始まり). リトライした場合は試行ごとに送出する */
+  attempt: number;
+}
+
+/**
+ * taskSuccess イベント
+ */
+export interface TaskSuccessEvent extends TaskEvent {
+  /** 最初に開始してから完了するまでの時間(ms) */
+  duration: number;
+  /** 処理結果 */
+  result: unknown;
+}
+
+/**
+ * taskError イベント
+ */
+export interface TaskErrorEvent extends TaskEvent {
+  /** 最初に開始してから失敗するまでの時間(ms). 開始前に中断された場合は0 */
+  duration: number;
+  /** エラー */
+  error: unknown;
+}
+
+/**
+ * taskSettled イベント
+ */
+export type TaskSettledEvent = (TaskSuccessEvent & { status: 'fulfilled' }) | (TaskErrorEvent & { status: 'rejected' });
+
+/**
+ * concurrencyChange イベント
+ */
+export interface ConcurrencyChangeEvent {
+  /** 変更前の並列実行数 */
+  previous: number;
+  /** 変更後の並列実行数 */
+  concurrency: number;
+}
+
+/**
+ * circuitStateChange イベント
+ */
+export interface CircuitStateChangeEvent {
+  /** 変更前の状態 */
+  previous: CircuitState;
+  /** 変更後の状態 */
+  state: CircuitState;
+}
+
+/**
+ * metricsError イベント
+ */
+export interface MetricsErrorEvent {
+  /** 例外が発生した MetricsSink のメソッド */
+  method: keyof MetricsSink;
+  /** 発生した例外 */
+  error: unknown;
+}
+
+/**
+ * storeError イベント
+ */
+export interface StoreErrorEvent {
+  /** 例外が発生した保存先 */
+  store: 'resultCache' | 'stateStore';
+  /** 例外が発生した操作. resultCache: get / set, stateStore: save */
+  operation: 'get' | 'set' | 'save';
+  /** 対象のキー. resultCache: dedupeKey, stateStore: TaskRecord.key */
+  key: string | number;
+  /** 発生した例外 */
+  error: unknown;
+}
+
+/**
+ * PromiseConcurrentExecutor が送出するイベント
+ */
+export interface PromiseConcurrentExecutorEvents {
+  /** 処理が実行一覧に登録された */
+  taskQueued: TaskEvent;
+  /** 処理が開始された */
+  taskStart: TaskStartEvent;
+  /** 処理が成功した */
+  taskSuccess: TaskSuccessEvent;
+  /** 処理が失敗した */
+  taskError: TaskErrorEvent;
+  /** 処理が完了した(成功・失敗を問わない) */
+  taskSettled: TaskSettledEvent;
+  /** 処理が何も実行されていない状態から最初の処理が開始された */
+  active: void;
+  /** 実行待ち・実行中の処理がすべて完了した */
+  idle: void;
+  /** 実行待ちの処理がすべて開始された */
+  drain: void;
+  /** 並列実行数が変更された(setConcurrency() / adaptive による調整) */
+  concurrencyChange: ConcurrencyChangeEvent;
+  /** サーキットブレーカーの状態が変化した */
+  circuitStateChange: CircuitStateChangeEvent;
+  /** 保存先で例外が発生した. 例外は実行に影響させない */
+  storeError: StoreErrorEvent;
+  /** 実行統計の送信先で例外が発生した. 例外は実行に影響させない */
+  metricsError: MetricsErrorEvent;
+}
+
+/**
+ * 実行統計
+ */
+export interface ExecutorStats {
+  /** 開始を待っている処理の数(実行前の実行一覧を含む. リトライ待機中は含まない) */
+  queued: number;
+  /** 実行中の処理の数 */
+  running: number;
+  /** 成功した処理の累計 */
+  completed: number;
+  /** 失敗した処理の累計 */
+  failed: number;
+  /** リトライした回数の累計 */
+  retried: number;
+  /** タイムアウトした回数の累計(試行単位) */
+  timedOut: number;
+  /** 実行待ち・実行中の同じ dedupeKey の処理の結果を共有した処理の累計 */
+  deduplicated: number;
+  /** resultCache に保持された結果を返却した処理の累計 */
+  cacheHits: number;
+  /** 最大同時実行数 */
+  peakConcurrency: number;
+  /** 処理が開始されるまでの待ち時間の累計(ms) */
+  totalWaitTime: number;
+  /** 処理の実行時間の累計(ms) */
+  totalRunTime: number;
+  /** 直近 latencyWindowSize 件の試行の実行時間の百分位数(ms). 記録がない場合は0 */
+  latency: {
+    p50: number;
+    p95: number;
+    p99: number;
+  };
+}
+
+/**
+ * 実行統計の送信先
+ * Prometheus / StatsD 等へのアダプターを実装して PromiseConcurrentExecutorOption.metricsSink に指定する
+ * 必要なメソッドのみ実装すればよい
+ */
+export interface MetricsSink {
+  /** カウンターを加算する */
+  increment?(name: 'completed' | 'failed' | 'retried' | 'timedOut' | 'deduplicated' | 'cacheHits', value: number): void;
+  /** 計測値を記録する(ms) */
+  observe?(name: 'waitTime' | 'runTime', value: number): void;
+  /** 現在値を記録する */
+  gauge?(name: 'running' | 'queued', value: number): void;
+}
+
+/**
+ * 処理結果のキャッシュの保存先
+ * Redis 等へのアダプターを実装して ResultCacheOption.store に指定する. 非同期に実装してもよい
+ */
+export interface ResultCacheStore {
+  /** 有効期限内の処理結果を返す. 保持していない場合はundefined */
+  get(key: string): PromiseSettledResult<unknown> | undefined | Promise<PromiseSettledResult<unknown> | undefined>;
+  /** 処理結果を有効期限(ms)付きで保持する */
+  set(key: string, result: PromiseSettledResult<unknown>, ttlMs: number): void | Promise<void>;
+}
+
+/**
+ * 処理結果のキャッシュ設定
+ * dedupeKey を指定した処理の結果を保持し、有効期限内に同じ dedupeKey の処理が追加された場合は関数を実行せずに結果を返す
+ */
+export interface ResultCacheOption {
+  /** 結果を保持する時間(ms) */
+  ttlMs: number;
+  /** 保存先. 未指定の場合は MemoryResultCacheStore */
+  store?: ResultCacheStore;
+  /** 失敗した結果も保持するかどうか. 未指定の場合はfalse(成功した結果のみ保持する) */
+  cacheRejected?: boolean;
+}
+
+/**
+ * 自動実行したバッチの情報
+ */
+export interface AutoExecuteBatchInfo {
+  /** バッチの連番(1始まり) */
+  batch: number;
+  /** バッチで実行した処理の数 */
+  size: number;
+  /** 自動実行した契機. threshold: triggerThreshold に到達 / maxWait: maxWaitMs が経過 / flush: flush() の呼び出し */
+  trigger: 'threshold' | 'maxWait' | 'flush';
+  /** バッチを開始した時刻 */
+  startedAt: number;
+  /** バッチの実行時間(ms) */
+  duration: number;
+}
+
 export interface PromiseConcurrentExecutorOption {
-  /** 関数の待機時間. 未指定の場合は100ms */
+  /** 関数の開始間隔の最小値(ms). 未指定の場合は間隔を空けずに空きスロットへ即座に割り当てる */
   interval?: number;
+  /** リトライ設定. 関数単位のオプションに指定がある場合はそちらを優先する */
+  retry?: RetryOption;
+  /** 流量制限. 並列実行数の制限と併せて適用する. コンストラクタでのみ有効 */
+  rateLimit?: RateLimitOption;
+  /**
+   * キーごとの並列実行数. TaskOption.key を指定した処理に、全体の並列実行数と併せて適用する
+   * キーごとに異なる値とする場合は関数を指定する. 1未満の場合は1として扱う. コンストラクタでのみ有効
+   */
+  perKeyConcurrency?: number | ((key: string) => number);
+  /**
+   * 複数の実行者で共有する並列実行数の上限. 自身の並列実行数と併せて適用する
+   * 処理の weight の分の枠を開始時に取得し、完了時に解放する. コンストラクタでのみ有効
+   */
+  pool?: ConcurrencyPool;
+  /**
+   * trueの場合、executeAll() で処理が失敗した時点で開始前の処理を取り止め、FailFastError でrejectする
+   * 実行中の処理は中断しない. executeAll() でのみ有効
+   */
+  failFast?: boolean;
+  /** 実行統計の送信先. コンストラクタでのみ有効 */
+  metricsSink?: MetricsSink;
+  /** 実行時間の百分位数を算出する対象の件数(直近の試行). 未指定の場合は1000. コンストラクタでのみ有効 */
+  latencyWindowSize?: number;
+  /** dedupeKey を指定した処理の結果のキャッシュ. コンストラクタでのみ有効 */
+  resultCache?: ResultCacheOption;
+  /** TaskDescriptor で実行する関数の一覧. コンストラクタでのみ有効 */
+  registry?: TaskRegistry;
+  /** TaskDescriptor で追加した処理の状態の保存先. コンストラクタでのみ有効 */
+  stateStore?: StateStore;
+  /** 並列実行数を自動的に調整する. 初期値はコンストラクタの並列実行数を min〜max の範囲に丸めた値. コンストラクタでのみ有効 */
+  adaptive?: AdaptiveConcurrencyOption;
+  /** サーキットブレーカー. 失敗が続いた場合に処理の開始を遮断する. コンストラクタでのみ有効 */
+  circuitBreaker?: CircuitBreakerOption;
   /** 自動実行 */
   autoExecute?: {
     /** 実行するタイプ. executeAll / executeAllSettled */
     type: 'all' | 'allSettled',
     /** 自動実行する件数. キューのサイズがこの件数に到達した時点でキューに登録されている関数をすべて実行する */
-    triggerThreshold: number
+    triggerThreshold: number,
+    /** 最も古い関数をキューに登録してから自動実行するまでの最大待機時間(ms). 未指定の場合は件数に到達するまで待機する */
+    maxWaitMs?: number,
+    /**
+     * バッチの完了時に結果を受け取る. Promiseを返した場合は完了してから次のバッチを開始する
+     * type が 'all' の場合は、すべての処理が成功した場合のみ呼び出す
+     */
+    onBatchResult?: (results: PromiseSettledResult<any>[], batchInfo: AutoExecuteBatchInfo) => void | Promise<void>,
+    /**
+     * type が 'all' のバッチが失敗した場合にエラーを受け取る. Promiseを返した場合は完了してから次のバッチを開始する
+     * maxWaitMs による実行やawaitせずに追加した場合など、呼び出し元へエラーを通知できない場合に利用する
+     */
+    onBatchError?: (error: unknown, batchInfo: AutoExecuteBatchInfo) => void | Promise<void>
   };
 }
 
+/**
+ * 依存する処理の結果. 依存する処理の識別子(TaskHandle.id)を文字列としたキーで保持する
+ */
+export type DependencyResults = Record<string, any>;
+
+/**
+ * 実行する関数
+ * 引数のAbortSignalはタイムアウトまたは中断時にabortされるため、HTTP通信やDBクエリの中断に利用できる
+ * TaskOption.dependsOn を指定した場合は、依存する処理の結果を第2引数で受け取る
+ */
+export type AsyncTask<T = any> = (signal: AbortSignal, dependencies: DependencyResults) => Promise<T>;
+
+/**
+ * 名前で登録した関数と、JSONとして保存できる引数で表した処理
+ * PromiseConcurrentExecutorOption.registry に登録した関数を実行する. StateStore に記録され、resumeFrom() で再開できる
+ */
+export interface TaskDescriptor {
+  /** registry に登録した関数の名前 */
+  name: string;
+  /** 関数へ渡す引数. JSONとして保存できる値とする */
+  args?: unknown;
+}
+
+/**
+ * TaskDescriptor で実行する関数の一覧. キーを TaskDescriptor.name とする
+ */
+export type TaskRegistry = Record<string, (args: any, signal: AbortSignal, dependencies: DependencyResults) => Promise<any>>;
+
+/**
+ * StateStore に記録する処理の状態
+ */
+export interface TaskRecord {
+  /** 記録の識別子. 最初に登録した時点の登録順. resumeFrom() で再開した場合も引き継ぐ */
+  key: number;
+  /** 実行する処理 */
+  descriptor: TaskDescriptor;
+  /** 関数単位のオプション(signal を除く) */
+  options: Omit<TaskOption, 'signal'>;
+  /** 処理の状態 */
+  status: TaskStatus;
+  /** 成功した場合の結果 */
+  value?: unknown;
+  /** 失敗した場合のエラー */
+  reason?: unknown;
+}
+
+/**
+ * 処理の状態の保存先
+ * TaskDescriptor で追加した処理の登録・開始・完了の時点で save() を呼び出す. save() は呼び出した順に反映すること
+ */
+export interface StateStore {
+  /** 処理の状態を保存する. 同じ key の記録は上書きする */
+  save(record: TaskRecord): void | Promise<void>;
+  /** 保存されているすべての処理の状態を key の昇順で返す */
+  load(): TaskRecord[] | Promise<TaskRecord[]>;
+  /** 保存されているすべての処理の状態を破棄する */
+  clear(): void | Promise<void>;
+}
+
+/**
+ * 処理の状態
+ * ・queued: 開始前(リトライの待機中を含む)
+ * ・running: 実行中
+ * ・fulfilled: 成功した
+ * ・rejected: 失敗した
+ * ・skipped: 依存する処理が失敗したため開始しなかった
+ */
+export type TaskStatus = 'queued' | 'running' | 'fulfilled' | 'rejected' | 'skipped';
+
+/**
+ * add() で追加した処理
+ */
+export interface TaskHandle<R = any> {
+  /** 関数の識別子. TaskOption.id が未指定の場合は実行一覧への登録順 */
+  readonly id: string | number;
+  /** 実行一覧への登録順(0始まり) */
+  readonly index: number;
+  /** 処理の状態 */
+  readonly status: TaskStatus;
+  /**
+   * 処理の結果
+   * 参照しない場合、処理の失敗は UnhandledPromiseRejection とならない
+   */
+  readonly result: Promise<R>;
+}
+
+/**
+ * executeAllSettled() の結果. 要素ごとの型を保持する
+ */
+export type SettledResults<T extends unknown[]> = { [K in keyof T]: PromiseSettledResult<Awaited<T[K]>> };
+
+/**
+ * 関数単位のオプション
+ */
+export interface TaskOption {
+  /** 関数の識別子. setPriority() で実行待ちの関数を指定する場合に利用する */
+  id?: string | number;
+  /** 関数のラベル. イベントに含めて送出する */
+  label?: string;
+  /** 優先度. 値が大きいほど先に実行される. 同じ優先度の場合は登録順. 未指定の場合は0 */
+  priority?: number;
+  /** 並列実行数を制限する単位(ホスト名・テナントID等). PromiseConcurrentExecutorOption.perKeyConcurrency と併せて指定する */
+  key?: string;
+  /** 処理が占有する並列実行数. 並列実行数を超える値は指定不可. 未指定の場合は1 */
+  weight?: number;
+  /** タイムアウト時間(ms). 関数の開始時点から計測する. 超過した場合は TaskTimeoutError でrejectされる */
+  timeoutMs?: number;
+  /** 中断用のシグナル. abortされた場合は TaskAbortedError でrejectされ、実行待ちの関数は開始されない */
+  signal?: AbortSignal;
+  /** リトライ設定. タイムアウトは試行ごとに計測する */
+  retry?: RetryOption;
+  /**
+   * 重複排除の単位. 同じ値の処理が実行待ち・実行中の場合は関数を実行せず、その処理の結果を共有する
+   * 結果を共有する処理では関数とその他のオプション(timeoutMs, signal, retry 等)を使用せず、スロットも占有しない
+   */
+  dedupeKey?: string;
+  /**
+   * 依存する処理の識別子(TaskHandle.id). 依存する処理がすべて成功してから開始し、その結果を関数の第2引数で受け取る
+   * 依存する処理が失敗した場合は開始せずに TaskSkippedError でrejectされる. start() による常駐時は指定不可
+   */
+  dependsOn?: (string | number)[];
+}
+
+/**
+ * 実行一覧に登録された関数
+ */
+interface Task {
+  /** 実行一覧への登録順 */
+  index: number;
+  /** 実行する関数 */
+  asyncFunction: AsyncTask;
+  /** 関数単位のオプション */
+  options: TaskOption;
+  /** 優先度. setPriority() で変更されるためオプションとは別に保持する */
+  priority: number;
+  /** 実行を取り止めたかどうか. trueの場合は開始されずにrejectされる */
+  cancelled: boolean;
+  /** 最初に開始した時刻 */
+  startedAt?: number;
+  /** 処理の状態 */
+  status: TaskStatus;
+  /** add() の返却値 */
+  handle: TaskHandle;
+  /** 結果を共有する処理. 同じ dedupeKey の処理が実行待ち・実行中の場合に設定する */
+  primary?: Task;
+  /** 依存する処理. 実行開始時に dependsOn から解決する */
+  dependencies?: Task[];
+  /** 依存する処理の結果 */
+  inputs?: DependencyResults;
+  /** TaskDescriptor で追加した場合の処理 */
+  descriptor?: TaskDescriptor;
+  /** StateStore に記録する識別子 */
+  recordKey?: number;
+  /** resumeFrom() で再開した、完了済みの処理の結果 */
+  restored?: PromiseSettledResult<unknown>;
+  /** 実行中の試行を開始した時点のサーキットブレーカーの世代 */
+  circuitGeneration?: number;
+  /** 処理を開始した時点の abort() の呼び出し回数 */
+  abortGeneration?: number;
+  /** 処理結果を通知する */
+  resolve: (value: any) => void;
+  /** 処理の失敗を通知する */
+  reject: (error: unknown) => void;
+}
+
+/**
+ * 実行待ちの関数
+ */
+interface Waiter {
+  /** 実行する関数 */
+  task: Task;
+  /** 実行待ち一覧への登録順 */
+  seq: number;
+  /** 実行待ち一覧へ登録した時刻 */
+  waitingSince: number;
+  /** 実行可能になったことを通知する */
+  resolve: () => void;
+  /** 実行前に中断されたことを通知する */
+  reject: (error: Error) => void;
+  /** 開始間隔の最小値(ms) */
+  interval: number;
+  /** 実行前に中断されたかどうか */
+  cancelled: boolean;
+}
+
+/**
+ * 同じシグナルを指定した実行待ちの関数
+ * シグナルごとに1つのリスナーを登録し、abortされた場合は実行待ちの関数をまとめてrejectする
+ */
+interface SignalWaiters {
+  /** 実行待ちの関数 */
+  waiters: Set<Waiter>;
+  /** シグナルに登録したリスナー */
+  onAbort: () => void;
+}
+
+/**
+ * 結果が確定した時点で残りの処理を取り止める条件
+ */
+interface StopCondition {
+  /** 条件とする処理の結果 */
+  status: 'fulfilled' | 'rejected' | 'settled';
+  /** 実行中の処理も中断するかどうか */
+  abortRunning: boolean;
+  /** 条件を満たした処理のエラー */
+  error?: unknown;
+}
+
 /**
  * 指定した並列実行数を最大としてPromiseを実行する。
  * 実行中の処理が１つ終わるとスタックに積まれている処理を１つ実行に移す。
  * このクラスに処理を追加する場合、Promiseでラップして引き渡す。
  * executeAll() / executeAllSettled() を呼ぶことで処理を開始し、完了後の結果を受け取る。
  * executeAll() / executeAllSettled() を呼び出すまでは関数が実行されない。
+ * start() を呼び出した場合は常駐し、add() で追加した処理を即座に実行する。
+ * append() で処理を追加した場合は、各処理の結果の型を Results に保持する。
  */
-export class PromiseConcurrentExecutor {
+export class PromiseConcurrentExecutor<Results extends unknown[] = any[]> extends TypedEventEmitter<PromiseConcurrentExecutorEvents> {
 
   /** 並列実行数 */
   private concurrency: number;
   /** コンストラクタオプション */
   private options: PromiseConcurrentExecutorOption;
   /** 実行一覧 */
-  private queue: (() => Promise<any>)[] = [];
+  private queue: Task[] = [];
   /** 現在実行数 */
   private runningCount = 0;
+  /** 実行中の処理が占有している並列実行数(weightの合計) */
+  private usedCapacity = 0;
   /** 実行中フラグ */
   private isRunning = false;
+  /** start() により常駐して処理を受け付けている状態かどうか */
+  private isStarted = false;
+  /** start() に指定されたオプション */
+  private startOptions?: PromiseConcurrentExecutorOption;
+  /** 次に登録する処理の登録順 */
+  private nextIndex = 0;
+  /** 自動実行中のバッチ */
+  private autoBatch?: Promise<void>;
+  /** 自動実行中のバッチの実行中に追加された関数. バッチの完了後に実行一覧へ登録する */
+  private autoPending: AsyncTask[] = [];
+  /** 最後に addWithAutoExecute() に指定されたオプション */
+  private autoOptions?: PromiseConcurrentExecutorOption;
+  /** maxWaitMs による自動実行のタイマー */
+  private autoTimer?: ReturnType<typeof setTimeout>;
+  /** 自動実行したバッチの数 */
+  private autoBatchCount = 0;
+  /** 実行待ち一覧. 優先度の高い順、同じ優先度の場合は登録順(FIFO) */
+  private waiters = new PriorityQueue<Waiter>(compareWaiters);
+  /** キーの並列実行数の上限に達しているため、スロットの割り当て対象から外した実行待ち一覧 */
+  private keyWaiters = new Map<string, PriorityQueue<Waiter>>();
+  /** キーごとの実行中の処理の数 */
+  private keyRunningCounts = new Map<string, number>();
+  /** 実行待ち一覧への登録数 */
+  private waiterSeq = 0;
+  /** 直前に関数を開始した時刻 */
+  private lastStartedAt = 0;
+  /** 開始間隔調整用のタイマー */
+  private dispatchTimer?: ReturnType<typeof setTimeout>;
+  /** 実行待ち一覧への一括登録中フラグ */
+  private dispatchHeld = false;
+  /** 流量制限 */
+  private rateLimiter?: RateLimiter;
+  /** 共有する並列実行数の上限 */
+  private pool?: ConcurrencyPool;
+  /** 共有プールの枠に空きができた場合に割り当てを行う */
+  private onPoolAvailable = () => this.dispatch();
+  /** 適応的並列実行数 */
+  private adaptiveLimiter?: AdaptiveLimiter;
+  /** サーキットブレーカー */
+  private circuitBreaker?: CircuitBreaker;
+  /** この時刻まで関数の開始を停止する(Retry-After) */
+  private pausedUntil = 0;
+  /** pause() により関数の開始を停止しているかどうか */
+  private paused = false;
+  /** 結果が確定した時点で残りの処理を取り止める条件. executeAny() / executeRace() / failFast の executeAll() の実行中のみ設定する */
+  private stopOn?: StopCondition;
+  /** 実行中の関数の中断処理 */
+  private executions = new Set<(error: Error) => void>();
+  /** リトライ待機中の関数の中断処理 */
+  private backoffs = new Set<(error: Error) => void>();
+  /** 実行を開始してから完了していない処理の数(実行待ち・リトライ待機中を含む) */
+  private pendingCount = 0;
+  /** 処理が実行されている状態かどうか(active イベントを送出してから idle イベントを送出するまで) */
+  private isActive = false;
+  /** 開始を待っている処理の数 */
+  private waitingCount = 0;
+  /** 関数単位のシグナルごとの実行待ちの関数 */
+  private signalWaiters = new Map<AbortSignal, SignalWaiters>();
+  /** abort() の呼び出し回数. 実行待ち一覧へ登録する前の処理(依存する処理・キャッシュの待機中)の中断に使用する */
+  private abortGeneration = 0;
+  /** 直近の abort() の中断理由 */
+  private abortReason?: unknown;
+  /** 実行統計 */
+  private stats: StatsCollector;
+  /** 処理結果のキャッシュの保存先 */
+  private cacheStore?: ResultCacheStore;
+  /** dedupeKey ごとの実行待ち・実行中の処理 */
+  private inflight = new Map<string, Task>();
+  /** 処理の状態の保存先 */
+  private stateStore?: StateStore;
+  /** 次に StateStore へ記録する処理の識別子 */
+  private nextRecordKey = 0;
 
   /**
    * コンストラクタ
@@ -37,18 +755,170 @@ export class PromiseConcurrentExecutor {
    * @param {PromiseConcurrentExecutorOption} [options]
    */
   constructor(concurrency?: number, options?: PromiseConcurrentExecutorOption) {
+    super();
     this.concurrency = concurrency || 1;
     this.options = options || {};
+    if (this.options.rateLimit != null) {
+      this.rateLimiter = new RateLimiter(this.options.rateLimit);
+    }
+    this.pool = this.options.pool;
+    this.stats = new StatsCollector(this.options.latencyWindowSize ?? 1000, this.options.metricsSink, (method, error) => {
+      this.emit('metricsError', { method, error });
+    });
+    if (this.options.adaptive != null) {
+      this.adaptiveLimiter = new AdaptiveLimiter(this.options.adaptive, this.concurrency);
+      this.concurrency = this.adaptiveLimiter.getLimit();
+    }
+    if (this.options.circuitBreaker != null) {
+      this.circuitBreaker = new CircuitBreaker(this.options.circuitBreaker, (previous, state) => {
+        this.emit('circuitStateChange', { previous, state });
+      });
+    }
+    this.stateStore = this.options.stateStore;
+    if (this.options.resultCache != null) {
+      this.cacheStore = this.options.resultCache.store ?? new MemoryResultCacheStore();
+    }
     this.init();
   }
 
+  /**
+   * 要素ごとに関数を並列に実行し、すべての結果を要素の順序で返却する
+   * 要素は必要になった時点で読み込むため、配列以外のIterable / AsyncIterable(DBのカーソル等)も扱える
+   * いずれかの関数がrejectされた場合は以降の要素を読み込まずにrejectする
+   *
+   * @param {Iterable<T> | AsyncIterable<T>} source
+   * @param {(item: T, index: number, signal: AbortSignal) => Promise<R>} mapper
+   * @param {MapOption} [options]
+   * @returns {Promise<R[]>}
+   */
+  public static async map<T, R>(
+    source: Iterable<T> | AsyncIterable<T>,
+    mapper: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    options?: MapOption
+  ): Promise<R[]> {
+    const results: R[] = [];
+    for await (const result of PromiseConcurrentExecutor.mapIterable(source, mapper, options)) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * 要素ごとに関数を並列に実行し、結果を要素の順序で1件ずつ返却する
+   * 要素は必要になった時点で読み込み、メモリ上に保持する要素は concurrency + readAhead 件までとなる
+   * いずれかの関数がrejectされた場合は以降の要素を読み込まず、それより前の結果を返却した後にエラーを送出する
+   * for await の途中で処理を抜けた場合は、実行中の関数へ渡したAbortSignalをabortし、要素の読み込みを終了する
+   *
+   * @param {Iterable<T> | AsyncIterable<T>} source
+   * @param {(item: T, index: number, signal: AbortSignal) => Promise<R>} mapper
+   * @param {MapOption} [options]
+   * @returns {AsyncGenerator<R>}
+   */
+  public static async *mapIterable<T, R>(
+    source: Iterable<T> | AsyncIterable<T>,
+    mapper: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    options?: MapOption
+  ): AsyncGenerator<R, void, undefined> {
+    const concurrency = options?.concurrency || 1;
+    const windowSize = concurrency + (options?.readAhead ?? concurrency);
+    // 文字列は in 演算子で判定できないため、メソッドの有無で判定する
+    const iterator: AsyncIterator<T> | Iterator<T> = typeof (source as AsyncIterable<T>)[Symbol.asyncIterator] === 'function'
+      ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (source as Iterable<T>)[Symbol.iterator]();
+    const controller = new AbortController();
+    const settled = new Map<number, PromiseSettledResult<R>>();
+    let pulled = 0;
+    let yielded = 0;
+    let runningCount = 0;
+    let pulling = false;
+    let done = false;
+    let failed = false;
+    let sourceError: { error: unknown } | undefined;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+    // 空きがある限り要素を読み込んで関数を開始する. 要素の読み込みは同時に1つだけ行う
+    const pump = async () => {
+      if (pulling) {
+        return;
+      }
+      pulling = true;
+      try {
+        while (!done && !failed && runningCount < concurrency && pulled - yielded < windowSize) {
+          const next = await iterator.next();
+          if (next.done) {
+            done = true;
+            break;
+          }
+          if (done || failed) {
+            // 読み込み中に利用側が処理を抜けた場合・関数が失敗した場合は、読み込んだ要素の関数を開始しない
+            break;
+          }
+          const index = pulled++;
+          runningCount++;
+          new Promise<R>(r => r(mapper(next.value, index, controller.signal))).then(value => {
+            settled.set(index, { status: 'fulfilled', value });
+          }, reason => {
+            failed = true;
+            settled.set(index, { status: 'rejected', reason });
+          }).finally(() => {
+            runningCount--;
+            notify();
+            pump();
+          });
+        }
+      } catch (error) {
+        done = true;
+        sourceError = { error };
+      } finally {
+        pulling = false;
+        notify();
+      }
+    };
+    try {
+      pump();
+      while (true) {
+        const result = settled.get(yielded);
+        if (result != null) {
+          settled.delete(yielded);
+          if (result.status === 'rejected') {
+            throw result.reason;
+          }
+          yield result.value;
+          // 利用側が次の結果を要求した時点で読み込みを再開する
+          yielded++;
+          pump();
+        } else if (done && !pulling && yielded === pulled) {
+          if (sourceError != null) {
+            throw sourceError.error;
+          }
+          return;
+        } else {
+          await new Promise<void>(resolve => wake = resolve);
+        }
+      }
+    } finally {
+      if (!done || runningCount > 0) {
+        // 途中で終了した場合は実行中の関数を中断し、要素の読み込みを終了する
+        controller.abort(new TaskAbortedError());
+        done = true;
+        await iterator.return?.();
+      }
+    }
+  }
+
   /**
    * フィールド初期化
    */
   private init() {
     this.queue.length = 0;
     this.isRunning = false;
-    this.runningCount = 0; // これは明示的に実行しなくても処理完了時には0になる
+    this.nextIndex = 0;
+    this.nextRecordKey = 0;
+    // runningCount / waiters は処理の完了時に release() で管理されるため、ここではリセットしない
+    // (executeAll() がエラーで中断した場合でも、残りの処理の流量制限を維持する)
   }
 
   /**
@@ -62,187 +932,1567 @@ export class PromiseConcurrentExecutor {
 
   /**
    * 並列実行数を設定する
+   * 実行中でも即座に反映し、増加した場合は実行待ちの処理をすぐに開始する
+   * 減少した場合は実行中の処理を中断せず、完了するまで新たな処理を開始しない
+   * 実行待ちの処理のうち weight が新しい並列実行数を超えるものは、並列実行数が戻るまで開始を待機する(後続の処理も開始しない)
+   * adaptive の指定がある場合は min〜max の範囲に丸め、以降はこの値から調整する
    *
-   * @param {number} concurrency
+   * @param {number} concurrency 1以上
    */
   public setConcurrency(concurrency: number): void {
-    this.concurrency = concurrency;
+    if (!(concurrency >= 1)) {
+      throw new Error('concurrency must be at least 1.');
+    }
+    this.changeConcurrency(this.adaptiveLimiter?.setLimit(concurrency) ?? concurrency);
   }
 
   /**
-   * 実行一覧に登録されている処理の数を返す
-   *
-   * @returns {number}
+   * 新たな処理の開始を停止する
+   * 実行中の処理は中断せずに完了させ、resume() を呼び出すまで実行待ちの処理を開始しない
    */
-  public size(): number {
-    return this.queue.length;
+  public pause(): void {
+    this.paused = true;
   }
 
   /**
-   * 処理を追加する
-   *
-   * @param {() => Promise<any>} asyncFunction
+   * pause() により停止した処理の開始を再開する
    */
-  public add(asyncFunction: () => Promise<any>): void {
-    if (this.isRunning) {
-      throw new Error('Cannot add any processes while execution is in progress.');
+  public resume(): void {
+    if (!this.paused) {
+      return;
     }
-    this.queue.push(asyncFunction);
+    this.paused = false;
+    this.dispatch();
   }
 
   /**
-   * 処理を追加する
-   * options.autoExecuteAllまたはautoExecuteSyncに指定がある場合、
-   * キューに追加された値が指定した値に達した場合、自動的に処理を開始する
-   *
-   * この関数をawaitせずに呼び出した場合、処理の実行とキューへの追加がバッティングしてエラーがスローされる可能性がある
-   * この関数を呼び出すときには必ずawaitをすること
-   *
-   * 自動的に処理を行う場合は大量の処理が要求される可能性があることからレスポンス情報を保持するとメモリを圧迫する恐れがあるため、処理結果は返却しない
+   * pause() により処理の開始を停止しているかどうかを返す
    *
-   * @param {() => Promise<T>} asyncFunction
-   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {boolean}
    */
-  public async addWithAutoExecute(asyncFunction: () => Promise<any>, options?: PromiseConcurrentExecutorOption): Promise<void> {
-    this.queue.push(asyncFunction);
-    const autoExecute = options?.autoExecute || this.options.autoExecute;
-    if (autoExecute != null && autoExecute.triggerThreshold <= this.queue.length) {
-      switch (autoExecute.type) {
-        case 'all':
-          await this.executeAll(options);
-          break;
-        case 'allSettled':
-          await this.executeAllSettled(options);
-          break;
-        default:
-      }
-    }
+  public isPaused(): boolean {
+    return this.paused;
   }
 
   /**
-   * 処理を追加する
+   * サーキットブレーカーの状態を返す
    *
-   * @param {(() => Promise<any>)[]} asyncFunctions
+   * @returns {CircuitState | undefined} サーキットブレーカーが設定されていない場合はundefined
    */
-  public addAll(asyncFunctions: (() => Promise<any>)[]): void {
-    for (let i = 0; i < asyncFunctions.length; i++) {
-      this.add(asyncFunctions[i]);
-    }
+  public getCircuitState(): CircuitState | undefined {
+    return this.circuitBreaker?.getState();
   }
 
   /**
-   * 処理を追加する
-   * options.autoExecuteAllまたはautoExecuteSyncに指定がある場合、
-   * キューに追加された値が指定した値に達した場合、自動的に処理を開始する
-   *
-   * この関数をawaitせずに呼び出した場合、処理の実行とキューへの追加がバッティングしてエラーがスローされる可能性がある
-   * この関数を呼び出すときには必ずawaitをすること
-   *
-   * 自動的に処理を行う場合は大量の処理が要求される可能性があることからレスポンス情報を保持するとメモリを圧迫する恐れがあるため、処理結果は返却しない
+   * 流量制限の残り枠を返す
+   * reportRetryAfter() により停止中の場合は、停止が解除されるまで残り枠を0として扱う
    *
-   * @param {(() => Promise<any>)[]} asyncFunctions
-   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {RateLimitBudget | undefined} 流量制限が設定されていない場合はundefined
    */
-  public async addAllWithAutoExecute(asyncFunctions: (() => Promise<any>)[], options?: PromiseConcurrentExecutorOption): Promise<void> {
-    for (let i = 0; i < asyncFunctions.length; i++) {
-      await this.addWithAutoExecute(asyncFunctions[i], options);
+  public getRateLimit(): RateLimitBudget | undefined {
+    if (this.rateLimiter == null) {
+      return undefined;
+    }
+    const now = Date.now();
+    const budget = this.rateLimiter.getBudget(now);
+    if (this.pausedUntil > now) {
+      return {
+        ...budget,
+        remaining: 0,
+        waitMs: Math.max(budget.waitMs, this.pausedUntil - now)
+      };
     }
+    return budget;
   }
 
   /**
-   * すべての処理の実行を開始し、完了後の結果を返却する
-   * 呼び出し中にエラーが発生してもすべての処理を実行する
-   * 呼び出しエラーになったかどうかの判別は PromiseSettledResult.status により行う。
-   * この関数は返却値をPromiseSettledResultの配列で返す
-   * Genericsの型は単一の型のみサポートし、配列やタプル型は指定不可
-   * 返却の型が異なる場合はGenericsを未指定にするかanyを指定する。個別の型定義については未サポート
+   * 指定した時間、関数の開始を停止する
+   * 呼び出し先から429 Too Many Requests の Retry-After を受け取った場合に、関数内から呼び出す
+   * 実行中の関数は中断しない
    *
-   * @param {PromiseConcurrentExecutorOption} [options]
-   * @returns {{Promise<PromiseSettledResult<T>>[]}}
+   * @param {number} retryAfterMs
    */
-  public async executeAllSettled<T = any>(options?: PromiseConcurrentExecutorOption): Promise<PromiseSettledResult<T>[]> {
-    if (this.isRunning) {
-      throw new Error('Execution is already in progress.');
-    }
-    try {
-      this.isRunning = true;
-      // Promise.allSettledの中で関数の実行を行うことで Proise.allSettled から UnhandledPromiseRejectionWarning が出力されることを回避できる
-      // https://stackoverflow.com/questions/67502527/unhandled-promise-rejection-with-promise-allsettled-and-try-catch
-      const results = await Promise.allSettled<T>(this.queue.map(async promise => {
-        return await this.execute<T>(promise, options);
-      }));
-      return results as PromiseSettledResult<T>[];
-    } finally {
-      this.init();
+  public reportRetryAfter(retryAfterMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+    // 停止中のタイマーより先に解除されることがないよう、割り当てのタイマーを張り直す
+    if (this.dispatchTimer != null) {
+      clearTimeout(this.dispatchTimer);
+      this.dispatchTimer = undefined;
     }
+    this.dispatch();
   }
 
   /**
-   * すべての処理の実行を開始し、完了後の結果を返却する
-   * 呼び出し中にエラーが発生した場合は即座にエラーを送出する。
+   * 実行統計を返す
+   *
+   * @returns {ExecutorStats}
+   */
+  public getStats(): ExecutorStats {
+    return this.stats.snapshot(this.runningCount, this.getQueuedCount());
+  }
+
+  /**
+   * 実行一覧に登録されている処理の数を返す
+   *
+   * @returns {number}
+   */
+  public size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * 処理を追加する
+   * start() により常駐している場合は即座に実行待ちとなり、それ以外の場合は executeAll() 等の呼び出し時に実行される
+   * TaskDescriptor を指定した場合は registry に登録した関数を実行し、stateStore の指定がある場合は処理の状態を記録する
+   *
+   * @param {AsyncTask<R> | TaskDescriptor} asyncFunction
+   * @param {TaskOption} [options]
+   * @returns {TaskHandle<R>}
+   */
+  public add<R = any>(asyncFunction: AsyncTask<R> | TaskDescriptor, options?: TaskOption): TaskHandle<R> {
+    if (this.isRunning && !this.isStarted) {
+      throw new Error('Cannot add any processes while execution is in progress.');
+    }
+    return this.enqueue(asyncFunction, options);
+  }
+
+  /**
+   * 処理を追加し、処理の結果の型を引き継いだ自身を返す
+   * 続けて呼び出すことで、executeAll() / executeAllSettled() の結果がタプル型として推論される
+   *
+   * @param {AsyncTask<R>} asyncFunction
+   * @param {TaskOption} [options]
+   * @returns {PromiseConcurrentExecutor<[...Results, R]>}
+   */
+  public append<R>(asyncFunction: AsyncTask<R>, options?: TaskOption): PromiseConcurrentExecutor<[...Results, R]> {
+    this.add(asyncFunction, options);
+    return this as unknown as PromiseConcurrentExecutor<[...Results, R]>;
+  }
+
+  /**
+   * StateStore に記録された処理を実行一覧に登録し、以降の処理の状態も同じ保存先へ記録する
+   * 完了済み(fulfilled / rejected)の処理は関数を実行せずに記録した結果を返し、それ以外の処理は再度実行する
+   * 処理を追加する前に呼び出すこと
+   *
+   * @param {StateStore} store
+   * @returns {Promise<TaskHandle[]>} 登録した処理. 記録の key の昇順
+   */
+  public async resumeFrom(store: StateStore): Promise<TaskHandle[]> {
+    if (this.isRunning) {
+      throw new Error('Execution is already in progress.');
+    }
+    if (this.queue.length > 0) {
+      throw new Error('resumeFrom() must be called before adding any processes.');
+    }
+    const records = await store.load();
+    this.stateStore = store;
+    const handles = records.map(record => this.enqueue(record.descriptor, record.options, record));
+    this.nextRecordKey = records.reduce((max, record) => Math.max(max, record.key + 1), 0);
+    return handles;
+  }
+
+  /**
+   * 常駐して処理を受け付ける状態にする
+   * 実行一覧に登録済みの処理を実行し、以降は add() で追加された処理を即座に実行待ちとする
+   * stop() を呼び出すまで executeAll() / executeAllSettled() / executeStream() は呼び出せない
+   *
+   * @param {PromiseConcurrentExecutorOption} [options]
+   */
+  public start(options?: PromiseConcurrentExecutorOption): void {
+    if (this.isRunning) {
+      throw new Error('Execution is already in progress.');
+    }
+    this.resolveDependencies();
+    this.isRunning = true;
+    this.isStarted = true;
+    this.startOptions = options;
+    // 処理結果は TaskHandle.result で通知する
+    this.executeQueue(options).forEach(promise => promise.catch(() => undefined));
+    this.queue.length = 0;
+  }
+
+  /**
+   * 実行待ち・実行中の処理がすべて完了するまで待機する
+   *
+   * @returns {Promise<void>}
+   */
+  public onIdle(): Promise<void> {
+    if (this.pendingCount === 0) {
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => this.once('idle', resolve));
+  }
+
+  /**
+   * 常駐を終了する
+   * 新たな処理の受け付けを停止し、実行待ち・実行中の処理がすべて完了してから通常の状態に戻る
+   * 完了を待たずに終了する場合は、先に abort() を呼び出す
+   *
+   * @returns {Promise<void>}
+   */
+  public async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+    this.startOptions = undefined;
+    await this.onIdle();
+    this.init();
+  }
+
+  /**
+   * 実行待ちの処理の優先度を変更する
+   * 指定した識別子の処理のうち、まだ開始されていないものが対象となる
+   *
+   * @param {string | number} id
+   * @param {number} priority
+   * @returns {boolean} 対象の処理が存在した場合はtrue
+   */
+  public setPriority(id: string | number, priority: number): boolean {
+    let updated = false;
+    if (!this.isRunning) {
+      for (const task of this.queue) {
+        if (task.options.id === id) {
+          task.priority = priority;
+          updated = true;
+        }
+      }
+    }
+    for (const waiters of [this.waiters, ...this.keyWaiters.values()]) {
+      for (const waiter of waiters.toArray()) {
+        if (!waiter.cancelled && waiter.task.options.id === id) {
+          waiter.task.priority = priority;
+          waiters.update(waiter);
+          updated = true;
+        }
+      }
+    }
+    if (updated) {
+      this.dispatch();
+    }
+    return updated;
+  }
+
+  /**
+   * 実行中および実行待ちの処理をすべて中断する
+   * 実行中の関数に渡したAbortSignalをabortし、TaskAbortedError でrejectする
+   * 実行待ちの関数は開始されずに TaskAbortedError でrejectされる
+   * executeAll() / executeAllSettled() を呼び出す前の場合、実行一覧に登録されている処理を破棄し、TaskHandle.result を TaskAbortedError でrejectする
+   *
+   * @param {unknown} [reason]
+   */
+  public abort(reason?: unknown): void {
+    this.abortGeneration++;
+    this.abortReason = reason;
+    // 自動実行の待機中・バッチの完了待ちの関数を破棄する
+    clearTimeout(this.autoTimer);
+    this.autoTimer = undefined;
+    this.autoPending.length = 0;
+    if (!this.isRunning) {
+      for (const task of this.queue) {
+        task.reject(new TaskAbortedError(reason));
+        this.releaseDedupeKey(task);
+      }
+      this.queue.length = 0;
+    }
+    // 実行待ちの関数は開始せずにrejectする
+    for (const waiters of [this.waiters, ...this.keyWaiters.values()]) {
+      for (const waiter of waiters.toArray()) {
+        this.cancelWaiter(waiter, new TaskAbortedError(reason));
+      }
+    }
+    this.waiters.clear();
+    this.keyWaiters.clear();
+    for (const abort of this.executions) {
+      abort(new TaskAbortedError(reason));
+    }
+    for (const cancel of this.backoffs) {
+      cancel(new TaskAbortedError(reason));
+    }
+  }
+
+  /**
+   * 処理を追加する
+   * options.autoExecute に指定がある場合、キューに追加された値が triggerThreshold に達した時点、
+   * または最も古い関数を追加してから maxWaitMs が経過した時点で、自動的に処理を開始する
+   *
+   * 自動実行中のバッチの実行中に呼び出した場合は、バッチの完了後にキューへ追加する. このため、この関数をawaitする必要はない
+   * awaitした場合は、この呼び出しにより開始したバッチが完了するまで待機する(type が 'all' の場合はエラーを送出する)
+   *
+   * 自動的に処理を行う場合は大量の処理が要求される可能性があることからレスポンス情報を保持するとメモリを圧迫する恐れがあるため、処理結果は返却しない
+   * 処理結果が必要な場合は autoExecute.onBatchResult で受け取る
+   *
+   * @param {AsyncTask} asyncFunction
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {Promise<void>}
+   */
+  public addWithAutoExecute(asyncFunction: AsyncTask, options?: PromiseConcurrentExecutorOption): Promise<void> {
+    this.autoOptions = options;
+    if (this.autoBatch != null) {
+      this.autoPending.push(asyncFunction);
+      return Promise.resolve();
+    }
+    if (this.isRunning && !this.isStarted) {
+      return Promise.reject(new Error('Cannot add any processes while execution is in progress.'));
+    }
+    this.enqueue(asyncFunction);
+    return this.autoExecuteIfNeeded();
+  }
+
+  /**
+   * addWithAutoExecute() で追加した処理のうち、自動実行されていないものを実行する
+   * 自動実行中のバッチがある場合は、その完了を待ってから実行する
+   *
+   * @returns {Promise<void>}
+   */
+  public async flush(): Promise<void> {
+    while (this.autoBatch != null) {
+      // 実行中のバッチのエラーはバッチを開始した呼び出し元へ通知するため、ここでは無視する
+      await this.autoBatch.catch(() => undefined);
+    }
+    if (this.queue.length > 0 && !this.isRunning) {
+      await this.runAutoBatch('flush');
+    }
+  }
+
+  /**
+   * 処理を追加する
+   *
+   * @param {F[]} asyncFunctions
+   * @param {number} priority すべての関数に共通で適用する優先度
+   * @returns {TaskHandle<Awaited<ReturnType<F>>>[]}
+   */
+  public addAll<F extends AsyncTask | TaskDescriptor>(asyncFunctions: F[], priority: number): TaskHandle<F extends AsyncTask ? Awaited<ReturnType<F>> : any>[];
+  /**
+   * 処理を追加する
+   *
+   * @param {F[]} asyncFunctions
+   * @param {TaskOption} [options] すべての関数に共通で適用する
+   * @returns {TaskHandle<Awaited<ReturnType<F>>>[]}
+   */
+  public addAll<F extends AsyncTask | TaskDescriptor>(asyncFunctions: F[], options?: TaskOption): TaskHandle<F extends AsyncTask ? Awaited<ReturnType<F>> : any>[];
+  public addAll<F extends AsyncTask | TaskDescriptor>(asyncFunctions: F[], options?: TaskOption | number): TaskHandle<F extends AsyncTask ? Awaited<ReturnType<F>> : any>[] {
+    const taskOptions = typeof options === 'number' ? { priority: options } : options;
+    const handles: TaskHandle<F extends AsyncTask ? Awaited<ReturnType<F>> : any>[] = [];
+    for (let i = 0; i < asyncFunctions.length; i++) {
+      handles.push(this.add(asyncFunctions[i], taskOptions));
+    }
+    return handles;
+  }
+
+  /**
+   * 処理を追加する
+   * options.autoExecute に指定がある場合、条件を満たした時点で自動的に処理を開始する
+   *
+   * 各関数を addWithAutoExecute() で順に追加し、開始したバッチの完了を待ってから次の関数を追加する
+   *
+   * 自動的に処理を行う場合は大量の処理が要求される可能性があることからレスポンス情報を保持するとメモリを圧迫する恐れがあるため、処理結果は返却しない
+   * 処理結果が必要な場合は autoExecute.onBatchResult で受け取る
+   *
+   * @param {AsyncTask[]} asyncFunctions
+   * @param {PromiseConcurrentExecutorOption} [options]
+   */
+  public async addAllWithAutoExecute(asyncFunctions: AsyncTask[], options?: PromiseConcurrentExecutorOption): Promise<void> {
+    for (let i = 0; i < asyncFunctions.length; i++) {
+      await this.addWithAutoExecute(asyncFunctions[i], options);
+    }
+  }
+
+  /**
+   * すべての処理の実行を開始し、完了後の結果を返却する
+   * 呼び出し中にエラーが発生してもすべての処理を実行する
+   * 呼び出しエラーになったかどうかの判別は PromiseSettledResult.status により行う。
+   * この関数は返却値をPromiseSettledResultの配列で返す
+   * Genericsを未指定の場合、append() で追加した処理の結果の型をタプル型として返す
+   * Genericsを指定した場合はすべての処理に共通の単一の型として扱い、配列やタプル型は指定不可
+   *
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {Promise<SettledResults<Results> | PromiseSettledResult<T>[]>}
+   */
+  public async executeAllSettled<T = never>(
+    options?: PromiseConcurrentExecutorOption
+  ): Promise<[T] extends [never] ? SettledResults<Results> : PromiseSettledResult<T>[]> {
+    if (this.isRunning) {
+      throw new Error('Execution is already in progress.');
+    }
+    try {
+      this.isRunning = true;
+      // Promise.allSettledの中で関数の実行を行うことで Proise.allSettled から UnhandledPromiseRejectionWarning が出力されることを回避できる
+      // https://stackoverflow.com/questions/67502527/unhandled-promise-rejection-with-promise-allsettled-and-try-catch
+      const results = await Promise.allSettled(this.executeQueue(options));
+      return results as [T] extends [never] ? SettledResults<Results> : PromiseSettledResult<T>[];
+    } finally {
+      this.init();
+    }
+  }
+
+  /**
+   * すべての処理の実行を開始し、完了後の結果を返却する
+   * 呼び出し中にエラーが発生した場合は即座にエラーを送出する。
+   * failFast を指定した場合は、開始前の処理を取り止めて FailFastError を送出する
    * この関数は返却値をタプル型で返す
-   * Genericsの型は配列またはタプル型をサポートする
+   * Genericsの型は配列またはタプル型をサポートする. 未指定の場合は append() で追加した処理の結果の型となる
    *
    * @param {PromiseConcurrentExecutorOption} [options]
    * @returns {{Promise<Awaited<T>>}}
    */
-  public async executeAll<T = any[]>(options?: PromiseConcurrentExecutorOption): Promise<Awaited<T>> {
+  public async executeAll<T = Results>(options?: PromiseConcurrentExecutorOption): Promise<Awaited<T>> {
     if (this.isRunning) {
       throw new Error('Execution is already in progress.');
     }
+    const failFast = options?.failFast ?? this.options.failFast ?? false;
+    const tasks = this.queue.slice();
     try {
       this.isRunning = true;
-      const results = await Promise.all<T>(this.queue.map(async promise => {
-        return await this.execute<T>(promise, options);
-      }));
-      return results as Awaited<T>;
+      const stopOn: StopCondition | undefined = failFast ? { status: 'rejected', abortRunning: false } : undefined;
+      this.stopOn = stopOn;
+      const promises = this.executeQueue<T>(options);
+      try {
+        const results = await Promise.all<T>(promises);
+        return results as Awaited<T>;
+      } catch (error) {
+        if (stopOn == null) {
+          throw error;
+        }
+        // 開始前に中断された処理により失敗した場合は settle() を経由しないため、ここで取り止める
+        const cause = 'error' in stopOn ? stopOn.error : error;
+        this.stopRemaining();
+        throw new FailFastError(cause, summarizeTasks(tasks), Promise.allSettled(promises));
+      }
     } finally {
+      this.stopOn = undefined;
       this.init();
     }
   }
 
   /**
-   * 処理を実行する
+   * すべての処理の実行を開始し、最初に成功した処理の結果を返却する
+   * Promise.any() と同様に、すべての処理が失敗した場合は各処理のエラーを登録順に保持した AggregateError を送出する
+   * 結果が確定した時点で開始前の処理を取り止め、実行中の処理へ渡したAbortSignalをabortする
    *
-   * @param {() => Promise<T>} promise
    * @param {PromiseConcurrentExecutorOption} [options]
    * @returns {Promise<T>}
    */
-  private async execute<T>(promise: () => Promise<T>, options?: PromiseConcurrentExecutorOption): Promise<T> {
-    // 自身が流量制限チェックを通過して実行可能状態になるまで待機
-    await this.wait(options);
-    return new Promise<T>(async (resolve, reject) => {
-      // ここで初めて関数の実行を行う
+  public async executeAny<T = Results[number]>(options?: PromiseConcurrentExecutorOption): Promise<T> {
+    if (this.isRunning) {
+      throw new Error('Execution is already in progress.');
+    }
+    try {
+      this.isRunning = true;
+      this.stopOn = { status: 'fulfilled', abortRunning: true };
+      const promises = this.executeQueue<T>(options);
       try {
-        const result = await promise();
-        resolve(result);
-      } catch (error) {
-        reject(error);
+        return await Promise.any(promises);
       } finally {
-        this.runningCount--;
+        this.stopRemaining();
+        // 中断した処理の完了を待つ
+        await Promise.allSettled(promises);
       }
-    });
+    } finally {
+      this.init();
+    }
   }
 
   /**
-   * 実行ができる状態になるまで待機する
-   * ・流量制限にひっかからない
+   * すべての処理の実行を開始し、最初に完了した処理の結果を返却する
+   * Promise.race() と同様に、最初に完了した処理が失敗した場合はそのエラーを送出する
+   * 結果が確定した時点で開始前の処理を取り止め、実行中の処理へ渡したAbortSignalをabortする
    *
    * @param {PromiseConcurrentExecutorOption} [options]
-   * @returns {{Promise<void>}}
+   * @returns {Promise<T>}
+   */
+  public async executeRace<T = Results[number]>(options?: PromiseConcurrentExecutorOption): Promise<T> {
+    if (this.isRunning) {
+      throw new Error('Execution is already in progress.');
+    }
+    if (this.queue.length === 0) {
+      // Promise.race() に空の配列を渡すと完了しないため、エラーとする
+      throw new Error('There are no processes to execute.');
+    }
+    try {
+      this.isRunning = true;
+      this.stopOn = { status: 'settled', abortRunning: true };
+      const promises = this.executeQueue<T>(options);
+      try {
+        return await Promise.race(promises);
+      } finally {
+        this.stopRemaining();
+        // 中断した処理の完了を待つ
+        await Promise.allSettled(promises);
+      }
+    } finally {
+      this.init();
+    }
+  }
+
+  /**
+   * すべての処理の実行を開始し、完了した順に結果を返却する
+   * 各結果には実行一覧への登録順を index として付与する
+   * 呼び出し中にエラーが発生してもすべての処理を実行する
+   * for await の途中で処理を抜けた場合は、開始前の処理を取り止めてフィールドを初期化する(実行中の処理は中断しない)
+   * 処理は最初の結果を要求した時点で開始する
+   *
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {AsyncGenerator<IndexedSettledResult<T>>}
+   */
+  public async *executeStream<T = any>(options?: PromiseConcurrentExecutorOption): AsyncGenerator<IndexedSettledResult<T>, void, undefined> {
+    if (this.isRunning) {
+      throw new Error('Execution is already in progress.');
+    }
+    const tasks = this.queue.slice();
+    const settled: (IndexedSettledResult<T> | undefined)[] = [];
+    let notify: (() => void) | undefined;
+    let yielded = 0;
+    try {
+      this.isRunning = true;
+      this.executeQueue<T>(options).forEach((promise, index) => {
+        const onSettled = (result: PromiseSettledResult<T>) => {
+          settled.push({ ...result, index });
+          notify?.();
+        };
+        promise.then(value => onSettled({ status: 'fulfilled', value }), reason => onSettled({ status: 'rejected', reason }));
+      });
+      while (yielded < tasks.length) {
+        if (yielded === settled.length) {
+          await new Promise<void>(resolve => notify = resolve);
+          notify = undefined;
+        }
+        const result = settled[yielded]!;
+        // 返却済みの結果を保持しないようにする
+        settled[yielded++] = undefined;
+        yield result;
+      }
+    } finally {
+      if (yielded < tasks.length) {
+        this.cancelTasks(tasks);
+      }
+      this.init();
+    }
+  }
+
+  /**
+   * 自動実行の条件を満たす場合はバッチを開始し、maxWaitMs の指定がある場合はタイマーを設定する
+   *
+   * @returns {Promise<void>} 開始したバッチ. 開始しない場合は即座にresolveする
+   */
+  private autoExecuteIfNeeded(): Promise<void> {
+    const autoExecute = this.autoOptions?.autoExecute || this.options.autoExecute;
+    if (autoExecute == null || this.queue.length === 0 || this.isRunning) {
+      return Promise.resolve();
+    }
+    if (autoExecute.triggerThreshold <= this.queue.length) {
+      return this.runAutoBatch('threshold');
+    }
+    if (autoExecute.maxWaitMs != null && this.autoTimer == null) {
+      this.autoTimer = setTimeout(() => {
+        this.autoTimer = undefined;
+        this.runAutoBatch('maxWait');
+      }, autoExecute.maxWaitMs);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * キューに登録されている処理をバッチとして自動実行する
+   * バッチの完了後、実行中に追加された関数をキューへ登録し、自動実行の条件を再判定する
+   *
+   * @param {AutoExecuteBatchInfo['trigger']} trigger
+   * @returns {Promise<void>}
    */
-  private async wait(options?: PromiseConcurrentExecutorOption): Promise<void> {
-    return new Promise<void>(resolve => {
-      const interval = options?.interval || this.options.interval || 100;
-      const intervalId = setInterval(() => {
-        // if文の中で条件判定とカウンターのインクリメントを行うことで、想定外の流量が発生することを回避
-        if (this.runningCount < this.concurrency // 流量制限に引っかからない
-            && this.runningCount++ != null // 条件を満たしたら実行数をインクリメント
-        ) {
-          resolve();
-          clearInterval(intervalId);
-        }
-      }, interval);
+  private runAutoBatch(trigger: AutoExecuteBatchInfo['trigger']): Promise<void> {
+    clearTimeout(this.autoTimer);
+    this.autoTimer = undefined;
+    const options = this.autoOptions;
+    const autoExecute = options?.autoExecute || this.options.autoExecute;
+    const batchInfo = { batch: ++this.autoBatchCount, size: this.queue.length, trigger, startedAt: Date.now() };
+    const batch = (async () => {
+      if (autoExecute?.type !== 'all') {
+        const results = await this.executeAllSettled(options);
+        await autoExecute?.onBatchResult?.(results, { ...batchInfo, duration: Date.now() - batchInfo.startedAt });
+        return;
+      }
+      let values: any[];
+      try {
+        values = await this.executeAll<any[]>(options);
+      } catch (error) {
+        // awaitしている呼び出し元へもエラーを通知するため、受け取った後に改めて送出する
+        await autoExecute.onBatchError?.(error, { ...batchInfo, duration: Date.now() - batchInfo.startedAt });
+        throw error;
+      }
+      const results = values.map<PromiseSettledResult<any>>(value => ({ status: 'fulfilled', value }));
+      await autoExecute.onBatchResult?.(results, { ...batchInfo, duration: Date.now() - batchInfo.startedAt });
+    })().finally(() => {
+      this.autoBatch = undefined;
+      for (const asyncFunction of this.autoPending.splice(0)) {
+        this.enqueue(asyncFunction);
+      }
+      // 後続のバッチのエラーは、awaitしていない呼び出し元へ通知できないため無視する
+      this.autoExecuteIfNeeded().catch(() => undefined);
     });
+    // awaitせずに呼び出された場合に UnhandledPromiseRejection とならないようにする
+    batch.catch(() => undefined);
+    this.autoBatch = batch;
+    return batch;
+  }
+
+  /**
+   * 実行一覧に処理を登録する
+   * start() により常駐している場合は実行一覧を経由せずに実行する
+   *
+   * @param {AsyncTask | TaskDescriptor} asyncFunction
+   * @param {TaskOption} [options]
+   * @param {TaskRecord} [record] resumeFrom() で再開する場合の記録
+   * @returns {TaskHandle}
+   */
+  private enqueue(asyncFunction: AsyncTask | TaskDescriptor, options?: TaskOption, record?: TaskRecord): TaskHandle {
+    const weight = options?.weight ?? 1;
+    if (!(weight > 0)) {
+      throw new Error('weight must be a positive number.');
+    }
+    if (weight > this.getMaxWeight()) {
+      throw new Error(`Task weight ${weight} exceeds the concurrency ${this.getMaxWeight()}.`);
+    }
+    if (this.pool != null && weight > this.pool.getLimit()) {
+      throw new Error(`Task weight ${weight} exceeds the pool capacity ${this.pool.getLimit()}.`);
+    }
+    if (this.isStarted && options?.dependsOn != null) {
+      throw new Error('dependsOn cannot be used while started.');
+    }
+    const descriptor = typeof asyncFunction === 'function' ? undefined : asyncFunction;
+    const task = createTask(this.nextIndex++, descriptor == null ? asyncFunction as AsyncTask : this.resolveDescriptor(descriptor), options);
+    if (descriptor != null) {
+      task.descriptor = descriptor;
+      task.recordKey = record?.key ?? this.nextRecordKey++;
+      if (record?.status === 'fulfilled' || record?.status === 'rejected') {
+        task.restored = record.status === 'fulfilled'
+          ? { status: 'fulfilled', value: record.value }
+          : { status: 'rejected', reason: record.reason };
+      } else if (record == null) {
+        this.saveRecord(task, { status: 'queued' });
+      }
+    }
+    const dedupeKey = task.options.dedupeKey;
+    if (dedupeKey != null) {
+      task.primary = this.inflight.get(dedupeKey);
+      if (task.primary == null) {
+        this.inflight.set(dedupeKey, task);
+      }
+    }
+    if (!this.isStarted) {
+      this.queue.push(task);
+    }
+    this.emit('taskQueued', { index: task.index, label: task.options.label });
+    if (this.isStarted) {
+      // 処理結果は TaskHandle.result で通知する
+      this.execute(task, this.startOptions).catch(() => undefined);
+    }
+    return task.handle;
+  }
+
+  /**
+   * 実行一覧の処理をすべて実行する
+   * すべての処理を実行待ち一覧に登録してからスロットを割り当てることで、
+   * 先に登録された処理が優先度に関係なく開始されることを防ぐ
+   * 依存関係が不正な場合は、いずれの処理も開始せずに DependencyGraphError を送出する
+   *
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {Promise<T>[]}
+   */
+  private executeQueue<T>(options?: PromiseConcurrentExecutorOption): Promise<T>[] {
+    this.resolveDependencies();
+    this.dispatchHeld = true;
+    try {
+      return this.queue.map(async task => {
+        return await this.execute<T>(task, options);
+      });
+    } finally {
+      this.dispatchHeld = false;
+      this.dispatch();
+    }
+  }
+
+  /**
+   * 処理を実行し、結果に応じたイベントを送出する
+   *
+   * @param {Task} task
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {Promise<T>}
+   */
+  private async execute<T>(task: Task, options?: PromiseConcurrentExecutorOption): Promise<T> {
+    this.pendingCount++;
+    task.abortGeneration = this.abortGeneration;
+    try {
+      const result = await this.obtainResult<T>(task, options);
+      this.stats.increment('completed');
+      task.resolve(result);
+      this.storeResult(task, { status: 'fulfilled', value: result });
+      this.saveRecord(task, { status: 'fulfilled', value: result });
+      const event = { index: task.index, label: task.options.label, duration: getDuration(task), result };
+      this.emit('taskSuccess', event);
+      this.emit('taskSettled', { ...event, status: 'fulfilled' });
+      return result;
+    } catch (error) {
+      this.stats.increment('failed');
+      task.reject(error);
+      this.storeResult(task, { status: 'rejected', reason: error });
+      if (task.startedAt != null && !(error instanceof TaskAbortedError)) {
+        // 中断された処理・開始しなかった処理は resumeFrom() で再度実行するため、完了として記録しない
+        this.saveRecord(task, { status: 'rejected', reason: error });
+      }
+      const event = { index: task.index, label: task.options.label, duration: getDuration(task), error };
+      this.emit('taskError', event);
+      this.emit('taskSettled', { ...event, status: 'rejected' });
+      throw error;
+    } finally {
+      if (--this.pendingCount === 0) {
+        this.isActive = false;
+        this.emit('idle');
+      }
+    }
   }
+
+  /**
+   * 処理結果を取得する
+   * resumeFrom() で再開した完了済みの処理の場合は記録した結果を返す
+   * 同じ dedupeKey の処理が実行待ち・実行中の場合はその結果を、キャッシュに結果がある場合はその結果を返し、
+   * いずれもない場合は関数を実行する. 依存する処理がある場合は、その完了を待ってから実行する
+   * キャッシュの保存先が同期的に結果を返す場合は待機せずに判定し、実行待ち一覧への登録順を維持する
+   *
+   * @param {Task} task
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {Promise<T>}
+   */
+  private async obtainResult<T>(task: Task, options?: PromiseConcurrentExecutorOption): Promise<T> {
+    if (task.restored != null) {
+      if (task.restored.status === 'rejected') {
+        throw task.restored.reason;
+      }
+      return task.restored.value as T;
+    }
+    if (task.primary != null) {
+      this.stats.increment('deduplicated');
+      return await task.primary.handle.result;
+    }
+    if (task.dependencies != null && task.dependencies.length > 0) {
+      try {
+        task.inputs = await this.waitDependencies(task.dependencies);
+      } catch (error) {
+        // 依存する処理が中断された場合は、スキップではなく中断として扱う
+        this.throwIfAborted(task);
+        throw error;
+      }
+      this.throwIfAborted(task);
+    }
+    const dedupeKey = task.options.dedupeKey;
+    if (dedupeKey != null && this.cacheStore != null) {
+      let cached: PromiseSettledResult<unknown> | undefined;
+      try {
+        const value = this.cacheStore.get(dedupeKey);
+        cached = value instanceof Promise ? await value : value;
+      } catch (error) {
+        // 保存先で発生した例外は実行に影響させず、キャッシュになかったものとして扱う
+        this.emit('storeError', { store: 'resultCache', operation: 'get', key: dedupeKey, error });
+      }
+      this.throwIfAborted(task);
+      if (cached != null) {
+        this.stats.increment('cacheHits');
+        if (cached.status === 'rejected') {
+          throw cached.reason;
+        }
+        return cached.value as T;
+      }
+    }
+    return await this.executeWithRetry<T>(task, options);
+  }
+
+  /**
+   * 処理を開始した後に abort() が呼び出された場合は TaskAbortedError を送出する
+   * 実行待ち一覧へ登録する前の処理は abort() で取り止められないため、待機の完了後に判定する
+   *
+   * @param {Task} task
+   */
+  private throwIfAborted(task: Task): void {
+    if (task.abortGeneration !== this.abortGeneration) {
+      throw new TaskAbortedError(this.abortReason);
+    }
+  }
+
+  /**
+   * TaskDescriptor から registry に登録した関数を実行する関数を生成する
+   *
+   * @param {TaskDescriptor} descriptor
+   * @returns {AsyncTask}
+   */
+  private resolveDescriptor(descriptor: TaskDescriptor): AsyncTask {
+    const registered = this.options.registry?.[descriptor.name];
+    if (registered == null) {
+      throw new Error(`Task "${descriptor.name}" is not registered.`);
+    }
+    return (signal, dependencies) => registered(descriptor.args, signal, dependencies);
+  }
+
+  /**
+   * TaskDescriptor で追加した処理の状態を StateStore へ記録する
+   * 保存先で発生した例外(結果をJSONに変換できない場合等)は実行に影響させず、storeError イベントで通知する
+   *
+   * @param {Task} task
+   * @param {Pick<TaskRecord, 'status' | 'value' | 'reason'>} state
+   */
+  private saveRecord(task: Task, state: Pick<TaskRecord, 'status' | 'value' | 'reason'>): void {
+    if (this.stateStore == null || task.descriptor == null || task.restored != null) {
+      return;
+    }
+    const { signal, ...options } = task.options;
+    const record: TaskRecord = { key: task.recordKey!, descriptor: task.descriptor, options, ...state };
+    new Promise<void>(resolve => resolve(this.stateStore!.save(record))).catch(error => {
+      this.emit('storeError', { store: 'stateStore', operation: 'save', key: record.key, error });
+    });
+  }
+
+  /**
+   * 依存する処理がすべて成功するまで待機し、その結果を返す
+   * いずれかが失敗した場合は、他の処理の完了を待たずに TaskSkippedError でrejectする
+   *
+   * @param {Task[]} dependencies
+   * @returns {Promise<DependencyResults>}
+   */
+  private async waitDependencies(dependencies: Task[]): Promise<DependencyResults> {
+    const results = await Promise.all(dependencies.map(async dependency => {
+      try {
+        return await dependency.handle.result;
+      } catch (error) {
+        throw new TaskSkippedError(dependency.handle.id, error);
+      }
+    }));
+    // dependsOn の順に格納する
+    const inputs: DependencyResults = {};
+    dependencies.forEach((dependency, i) => inputs[String(dependency.handle.id)] = results[i]);
+    return inputs;
+  }
+
+  /**
+   * 実行一覧の処理の dependsOn から依存する処理を解決する
+   * 存在しない識別子・特定できない識別子・循環がある場合は、実行一覧の処理をすべて DependencyGraphError でrejectし、
+   * 実行一覧を初期化してから送出する
+   */
+  private resolveDependencies(): void {
+    if (!this.queue.some(task => task.options.dependsOn != null)) {
+      return;
+    }
+    const tasksById = new Map<string | number, Task[]>();
+    for (const task of this.queue) {
+      // 同じ識別子の処理が多数ある場合(setPriority() でまとめて変更する場合等)に配列を複製しない
+      const tasks = tasksById.get(task.handle.id);
+      if (tasks == null) {
+        tasksById.set(task.handle.id, [task]);
+      } else {
+        tasks.push(task);
+      }
+    }
+    const unknownIds = new Set<string | number>();
+    const duplicateIds = new Set<string | number>();
+    for (const task of this.queue) {
+      task.dependencies = [];
+      for (const id of task.options.dependsOn ?? []) {
+        const found = tasksById.get(id);
+        if (found == null) {
+          unknownIds.add(id);
+        } else if (found.length > 1) {
+          duplicateIds.add(id);
+        } else {
+          task.dependencies.push(found[0]);
+        }
+      }
+    }
+    const cycle = unknownIds.size === 0 && duplicateIds.size === 0 ? findCycle(this.queue) : [];
+    if (unknownIds.size === 0 && duplicateIds.size === 0 && cycle.length === 0) {
+      return;
+    }
+    const error = new DependencyGraphError([...unknownIds], [...duplicateIds], cycle);
+    for (const task of this.queue) {
+      task.reject(error);
+    }
+    this.init();
+    throw error;
+  }
+
+  /**
+   * 結果が確定した処理の dedupeKey を解放し、キャッシュの設定がある場合は結果を保持する
+   * 結果を共有した処理・キャッシュから結果を返した処理の結果は保持しない
+   *
+   * @param {Task} task
+   * @param {PromiseSettledResult<unknown>} result
+   */
+  private storeResult(task: Task, result: PromiseSettledResult<unknown>): void {
+    const dedupeKey = task.options.dedupeKey;
+    if (dedupeKey == null || this.inflight.get(dedupeKey) !== task) {
+      return;
+    }
+    this.releaseDedupeKey(task);
+    const { resultCache } = this.options;
+    if (this.cacheStore == null || resultCache == null || task.startedAt == null) {
+      return;
+    }
+    if (result.status === 'rejected' && !resultCache.cacheRejected) {
+      return;
+    }
+    // 保存先で発生した例外は実行に影響させず、storeError イベントで通知する
+    new Promise<void>(resolve => resolve(this.cacheStore!.set(dedupeKey, result, resultCache.ttlMs))).catch(error => {
+      this.emit('storeError', { store: 'resultCache', operation: 'set', key: dedupeKey, error });
+    });
+  }
+
+  /**
+   * dedupeKey の実行待ち・実行中の処理から除外する
+   *
+   * @param {Task} task
+   */
+  private releaseDedupeKey(task: Task): void {
+    const dedupeKey = task.options.dedupeKey;
+    if (dedupeKey != null && this.inflight.get(dedupeKey) === task) {
+      this.inflight.delete(dedupeKey);
+    }
+  }
+
+  /**
+   * 処理を実行する
+   * リトライ設定がある場合は失敗した関数を再実行し、すべての試行が失敗した場合は TaskRetryError でrejectする
+   * リトライまでの待機中はスロットを解放し、待機後に実行待ち一覧の末尾へ再登録する
+   * 中断された場合はリトライせずに TaskAbortedError でrejectする
+   * リトライの開始前に失敗した場合(サーキットブレーカーが開いている場合等)は、それまでの試行のエラーとあわせて TaskRetryError でrejectする
+   * 結果が確定した場合は、後続の処理へスロットを引き渡す前に settle() で終了条件を判定する
+   *
+   * @param {Task} task
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {Promise<T>}
+   */
+  private async executeWithRetry<T>(task: Task, options?: PromiseConcurrentExecutorOption): Promise<T> {
+    const retry = task.options.retry ?? options?.retry ?? this.options.retry;
+    const errors: unknown[] = [];
+    for (let attempt = 1; ; attempt++) {
+      // 自身が流量制限チェックを通過して実行可能状態になるまで待機
+      try {
+        await this.wait(task, options);
+      } catch (error) {
+        if (errors.length === 0 || error instanceof TaskAbortedError) {
+          throw error;
+        }
+        throw new TaskRetryError([...errors, error]);
+      }
+      let result: T;
+      try {
+        result = await this.executeOnce<T>(task, attempt);
+      } catch (error) {
+        if (retry == null || error instanceof TaskAbortedError) {
+          this.settle(task, 'rejected', error);
+          throw error;
+        }
+        errors.push(error);
+        if (attempt > (retry.retries ?? 0) || !(retry.retryOn?.(error, attempt) ?? true)) {
+          const retryError = new TaskRetryError(errors);
+          this.settle(task, 'rejected', retryError);
+          throw retryError;
+        }
+        this.release(task);
+        this.stats.increment('retried');
+        task.status = 'queued';
+        await this.backoff(getRetryDelay(retry, attempt));
+        continue;
+      }
+      this.settle(task, 'fulfilled');
+      return result;
+    }
+  }
+
+  /**
+   * スロットを割り当てられた処理を1回実行する
+   * 全体の中断・関数単位の中断・タイムアウトのいずれかが発生した場合は関数へ渡したAbortSignalをabortし、
+   * 関数の完了を待たずにrejectする
+   *
+   * @param {Task} task
+   * @param {number} attempt
+   * @returns {Promise<T>}
+   */
+  private async executeOnce<T>(task: Task, attempt: number): Promise<T> {
+    task.status = 'running';
+    if (task.startedAt == null) {
+      task.startedAt = Date.now();
+      this.saveRecord(task, { status: 'running' });
+    }
+    if (!this.isActive) {
+      this.isActive = true;
+      this.emit('active');
+    }
+    this.emit('taskStart', { index: task.index, label: task.options.label, attempt });
+    const startedAt = Date.now();
+    try {
+      // ここで初めて関数の実行を行う
+      const result = await this.run<T>(task);
+      this.recordAttempt(task, Date.now() - startedAt, false);
+      return result;
+    } catch (error) {
+      this.recordAttempt(task, Date.now() - startedAt, true, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 試行の実行時間を記録し、サーキットブレーカー・adaptive の指定がある場合はその判定に使用する
+   * 中断された試行は並列実行数の見直しに使用しない
+   *
+   * @param {Task} task
+   * @param {number} runTime
+   * @param {boolean} failed
+   * @param {unknown} [error]
+   */
+  private recordAttempt(task: Task, runTime: number, failed: boolean, error?: unknown): void {
+    this.stats.recordRunTime(runTime);
+    if (this.circuitBreaker != null && task.circuitGeneration != null) {
+      const isFailure = this.options.circuitBreaker?.isFailure ?? ((e: unknown) => !(e instanceof TaskAbortedError));
+      this.circuitBreaker.record(!failed ? 'success' : isFailure(error) ? 'failure' : 'ignored', task.circuitGeneration);
+    }
+    if (this.adaptiveLimiter == null || error instanceof TaskAbortedError) {
+      return;
+    }
+    const isOverload = this.options.adaptive?.isOverload ?? ((e: unknown) => e instanceof TaskTimeoutError);
+    const saturated = this.waitingCount > 0;
+    const concurrency = this.adaptiveLimiter.record(runTime, failed && isOverload(error), saturated);
+    if (concurrency != null) {
+      this.changeConcurrency(concurrency);
+    }
+  }
+
+  /**
+   * 並列実行数を変更し、concurrencyChange イベントを送出する
+   *
+   * @param {number} concurrency
+   */
+  private changeConcurrency(concurrency: number): void {
+    const previous = this.concurrency;
+    this.concurrency = concurrency;
+    if (previous !== concurrency) {
+      this.emit('concurrencyChange', { previous, concurrency });
+    }
+    this.dispatch();
+  }
+
+  /**
+   * 処理に指定できる weight の最大値を返す
+   * adaptive の指定がある場合は並列実行数が減少しても開始できるように max を上限とする
+   *
+   * @returns {number}
+   */
+  private getMaxWeight(): number {
+    return this.adaptiveLimiter != null ? this.options.adaptive!.max : this.concurrency;
+  }
+
+  /**
+   * 関数を実行し、タイムアウトまたは中断が発生した時点でrejectする
+   *
+   * @param {Task} task
+   * @returns {Promise<T>}
+   */
+  private run<T>(task: Task): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const controller = new AbortController();
+      const { signal, timeoutMs } = task.options;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        this.executions.delete(abort);
+      };
+      // 関数へ渡したシグナルをabortし、関数の完了を待たずにrejectする
+      const abort = (error: Error) => {
+        settle();
+        controller.abort(error);
+        reject(error);
+      };
+      const onAbort = () => abort(new TaskAbortedError(signal!.reason));
+      if (signal?.aborted) {
+        // スロットの割り当て直後に中断された場合は関数を開始しない
+        reject(new TaskAbortedError(signal.reason));
+        return;
+      }
+      // 実行中の関数は並列実行数までのため個別に連動させる. 実行待ちの関数は attachWaiter() でシグナルごとにまとめて連動させる
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs != null) {
+        timeoutId = setTimeout(() => {
+          this.stats.increment('timedOut');
+          abort(new TaskTimeoutError(timeoutMs));
+        }, timeoutMs);
+      }
+      this.executions.add(abort);
+      // 同期的に例外を送出する関数もrejectとして扱う
+      new Promise<T>(r => r(task.asyncFunction(controller.signal, task.inputs ?? {}))).then(result => {
+        settle();
+        resolve(result);
+      }, error => {
+        settle();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * 実行ができる状態になるまで待機する
+   * ・流量制限にひっかからない
+   * 実行待ち一覧に登録し、スロットが空いた時点で優先度の高い順(同じ優先度の場合は登録順)に実行可能になる
+   * 実行待ちの間に関数単位のシグナルがabortされた場合は、スロットの空きを待たずにrejectする
+   *
+   * @param {Task} task
+   * @param {PromiseConcurrentExecutorOption} [options]
+   * @returns {{Promise<void>}}
+   */
+  private wait(task: Task, options?: PromiseConcurrentExecutorOption): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const { signal } = task.options;
+      if (signal?.aborted) {
+        reject(new TaskAbortedError(signal.reason));
+        return;
+      }
+      if (task.cancelled) {
+        reject(new TaskAbortedError());
+        return;
+      }
+      const interval = options?.interval ?? this.options.interval ?? 0;
+      const waiter: Waiter = { task, seq: this.waiterSeq++, waitingSince: Date.now(), resolve, reject, interval, cancelled: false };
+      if (signal != null) {
+        this.attachWaiter(waiter, signal);
+      }
+      this.waiters.push(waiter);
+      this.waitingCount++;
+      this.dispatch();
+    });
+  }
+
+  /**
+   * 指定した処理のうち開始前のものを取り止め、TaskAbortedError でrejectする
+   * リトライの待機中の処理は待機後に開始されずにrejectされる
+   *
+   * @param {Task[]} tasks
+   */
+  private cancelTasks(tasks: Task[]): void {
+    for (const task of tasks) {
+      task.cancelled = true;
+    }
+    for (const waiters of [this.waiters, ...this.keyWaiters.values()]) {
+      for (const waiter of waiters.toArray()) {
+        if (waiter.task.cancelled) {
+          this.cancelWaiter(waiter, new TaskAbortedError());
+        }
+      }
+    }
+  }
+
+  /**
+   * 実行待ちの関数を開始せずにrejectする
+   *
+   * @param {Waiter} waiter
+   * @param {Error} error
+   */
+  private cancelWaiter(waiter: Waiter, error: Error): void {
+    if (waiter.cancelled) {
+      return;
+    }
+    waiter.cancelled = true;
+    this.waitingCount--;
+    this.detachWaiter(waiter);
+    waiter.reject(error);
+  }
+
+  /**
+   * 実行待ちの関数をシグナルと連動させる
+   * 一括実行の中断に同じシグナルを共有する場合に備えて、リスナーはシグナルごとに1つのみ登録する
+   *
+   * @param {Waiter} waiter
+   * @param {AbortSignal} signal
+   */
+  private attachWaiter(waiter: Waiter, signal: AbortSignal): void {
+    let entry = this.signalWaiters.get(signal);
+    if (entry == null) {
+      const waiters = new Set<Waiter>();
+      const onAbort = () => {
+        this.signalWaiters.delete(signal);
+        for (const aborted of [...waiters]) {
+          this.cancelWaiter(aborted, new TaskAbortedError(signal.reason));
+        }
+        // 実行待ち一覧からは割り当ての時点で取り除くため、先頭の処理を止めている場合に備えて割り当てを行う
+        this.dispatch();
+      };
+      entry = { waiters, onAbort };
+      this.signalWaiters.set(signal, entry);
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    entry.waiters.add(waiter);
+  }
+
+  /**
+   * 実行待ちの関数とシグナルの連動を解除する. 実行待ちの関数がなくなったシグナルのリスナーは解除する
+   *
+   * @param {Waiter} waiter
+   */
+  private detachWaiter(waiter: Waiter): void {
+    const { signal } = waiter.task.options;
+    const entry = signal != null ? this.signalWaiters.get(signal) : undefined;
+    if (entry != null && entry.waiters.delete(waiter) && entry.waiters.size === 0) {
+      signal!.removeEventListener('abort', entry.onAbort);
+      this.signalWaiters.delete(signal!);
+    }
+  }
+
+  /**
+   * 開始を待っている処理の数を返す
+   * 実行前の場合は実行一覧に登録されている処理も含む
+   *
+   * @returns {number}
+   */
+  private getQueuedCount(): number {
+    return this.waitingCount + (this.isRunning ? 0 : this.queue.length);
+  }
+
+  /**
+   * リトライまでの待機を行う
+   * 待機中に abort() が呼ばれた場合は待機を打ち切ってrejectする
+   *
+   * @param {number} delayMs
+   * @returns {Promise<void>}
+   */
+  private backoff(delayMs: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const cancel = (error: Error) => {
+        clearTimeout(timeoutId);
+        this.backoffs.delete(cancel);
+        reject(error);
+      };
+      const timeoutId = setTimeout(() => {
+        this.backoffs.delete(cancel);
+        resolve();
+      }, delayMs);
+      this.backoffs.add(cancel);
+    });
+  }
+
+  /**
+   * 結果が確定した処理のスロットを解放する
+   * 終了条件(stopOn)を満たした場合は、スロットを後続の処理へ引き渡す前に残りの処理を取り止める
+   *
+   * @param {Task} task
+   * @param {'fulfilled' | 'rejected'} status
+   * @param {unknown} [error]
+   */
+  private settle(task: Task, status: 'fulfilled' | 'rejected', error?: unknown): void {
+    if (this.stopOn != null && (this.stopOn.status === status || this.stopOn.status === 'settled')) {
+      if (status === 'rejected') {
+        this.stopOn.error = error;
+      }
+      this.stopRemaining();
+    }
+    this.release(task);
+  }
+
+  /**
+   * 終了条件(stopOn)を満たした後に、残りの処理を取り止める
+   * 開始前に中断された処理により結果が確定した場合は settle() を経由しないため、呼び出し元でも実行する
+   */
+  private stopRemaining(): void {
+    if (this.stopOn == null) {
+      return;
+    }
+    const { abortRunning } = this.stopOn;
+    this.stopOn = undefined;
+    if (abortRunning) {
+      // 一括実行中は実行一覧の処理のみが実行されているため、全体の中断により残りの処理を中断できる
+      this.abort();
+      return;
+    }
+    // 実行中の処理は中断せず、開始前・リトライの待機中の処理のみ取り止める
+    this.cancelTasks(this.queue);
+    for (const cancel of this.backoffs) {
+      cancel(new TaskAbortedError());
+    }
+  }
+
+  /**
+   * 実行中の処理が完了したスロットを解放し、次の実行待ちへ引き渡す
+   * キーを指定した処理の場合は、キーの上限により割り当て対象から外していた処理を1件戻す
+   *
+   * @param {Task} task
+   */
+  private release(task: Task): void {
+    this.runningCount--;
+    this.usedCapacity -= task.options.weight ?? 1;
+    // 共有プールの枠は、空きを待っている他の実行者へ先に通知する
+    this.pool?.release(task.options.weight ?? 1);
+    const { key } = task.options;
+    if (key != null) {
+      const count = this.keyRunningCounts.get(key)! - 1;
+      if (count > 0) {
+        this.keyRunningCounts.set(key, count);
+      } else {
+        this.keyRunningCounts.delete(key);
+      }
+      const waiters = this.keyWaiters.get(key);
+      if (waiters != null) {
+        // 中断済みの処理はスロットを割り当てないため、中断されていない処理が見つかるまで取り出す
+        let waiter: Waiter | undefined;
+        while ((waiter = waiters.pop()) != null && waiter.cancelled);
+        if (waiter != null) {
+          this.waiters.push(waiter);
+        }
+        if (waiters.size() === 0) {
+          this.keyWaiters.delete(key);
+        }
+      }
+    }
+    this.stats.recordGauges(this.runningCount, this.getQueuedCount());
+    this.dispatch();
+  }
+
+  /**
+   * キーの並列実行数の上限を返す
+   *
+   * @param {string} key
+   * @returns {number} 上限がない場合はInfinity
+   */
+  private getKeyConcurrency(key: string): number {
+    const { perKeyConcurrency } = this.options;
+    if (perKeyConcurrency == null) {
+      return Infinity;
+    }
+    const concurrency = typeof perKeyConcurrency === 'function' ? perKeyConcurrency(key) : perKeyConcurrency;
+    return Math.max(1, concurrency);
+  }
+
+  /**
+   * 空いているスロットに実行待ちの関数を優先度の高い順に割り当てる
+   * 先頭の関数の weight に対して空きが足りない場合は後続の関数も割り当てない(weightの大きい関数が後続の関数に追い越され続けないようにする)
+   * pause() により停止している場合は resume() が呼ばれるまで割り当てない
+   * 開始間隔の最小値・流量制限・Retry-Afterによる停止がある場合は、開始できるまでタイマーで割り当てを遅延する
+   * 共有プールに空きがない場合は、枠が解放された時点で割り当てる
+   */
+  private dispatch(): void {
+    if (this.dispatchTimer != null || this.dispatchHeld) {
+      // 開始間隔の調整中はタイマー満了時に、一括登録中は登録完了時に割り当てを行う
+      return;
+    }
+    let started = false;
+    while (this.waiters.size() > 0) {
+      const waiter = this.waiters.peek()!;
+      const { signal } = waiter.task.options;
+      if (waiter.cancelled || signal?.aborted) {
+        // 実行前に中断された関数にはスロットを割り当てない
+        this.waiters.pop();
+        this.cancelWaiter(waiter, new TaskAbortedError(signal?.reason));
+        continue;
+      }
+      const { key } = waiter.task.options;
+      const keyRunningCount = key == null ? 0 : this.keyRunningCounts.get(key) ?? 0;
+      if (key != null && keyRunningCount >= this.getKeyConcurrency(key)) {
+        // キーの上限に達している場合は、後続の別のキーの処理を妨げないように割り当て対象から外す
+        this.waiters.pop();
+        let waiters = this.keyWaiters.get(key);
+        if (waiters == null) {
+          waiters = new PriorityQueue<Waiter>(compareWaiters);
+          this.keyWaiters.set(key, waiters);
+        }
+        waiters.push(waiter);
+        continue;
+      }
+      const weight = waiter.task.options.weight ?? 1;
+      const now = Date.now();
+      const circuitWaitMs = this.circuitBreaker?.getWaitMs(now) ?? 0;
+      if (circuitWaitMs > 0 && this.options.circuitBreaker?.whenOpen !== 'hold') {
+        // サーキットブレーカーにより開始できない場合は、スロットの空きを待たずにrejectする
+        this.waiters.pop();
+        this.cancelWaiter(waiter, new CircuitOpenError(circuitWaitMs === Infinity ? 0 : circuitWaitMs));
+        continue;
+      }
+      // adaptive により並列実行数が weight を下回った場合は、実行中の処理がなくなった時点で単独で開始する
+      const capacity = this.usedCapacity === 0 ? Math.max(this.concurrency, weight) : this.concurrency;
+      if (this.paused || weight > this.getMaxWeight() || this.usedCapacity + weight > capacity || circuitWaitMs === Infinity) {
+        // half-open で試行の結果を待っている場合は、結果の記録後のスロットの解放時に割り当てを行う
+        // setConcurrency() により並列実行数が weight を下回った場合は、並列実行数が戻った時点で割り当てを行う
+        break;
+      }
+      // 開始間隔・Retry-Afterによる停止・サーキットブレーカー・流量制限のいずれかで開始できない場合は、開始できる時刻まで割り当てを遅延する
+      let delayMs = Math.max(waiter.interval - (now - this.lastStartedAt), this.pausedUntil - now, circuitWaitMs);
+      if (delayMs <= 0 && this.pool != null && !this.pool.canAcquire(weight)) {
+        // 共有プールに空きがない場合は、他の実行者が枠を解放した時点で割り当てを行う
+        // 共有プールの上限が weight を下回った場合も、上限が戻るまで先頭で待機する
+        this.pool.onAvailable(this.onPoolAvailable);
+        break;
+      }
+      if (delayMs <= 0 && this.rateLimiter != null) {
+        // 流量制限の枠は開始できる場合にのみ消費する
+        delayMs = this.rateLimiter.acquire(now);
+      }
+      if (delayMs > 0) {
+        this.dispatchTimer = setTimeout(() => {
+          this.dispatchTimer = undefined;
+          this.dispatch();
+        }, delayMs);
+        return;
+      }
+      this.waiters.pop();
+      this.waitingCount--;
+      this.detachWaiter(waiter);
+      this.runningCount++;
+      this.usedCapacity += weight;
+      this.pool?.tryAcquire(weight);
+      if (key != null) {
+        this.keyRunningCounts.set(key, keyRunningCount + 1);
+      }
+      this.lastStartedAt = now;
+      waiter.task.circuitGeneration = this.circuitBreaker?.acquire();
+      started = true;
+      this.stats.recordWaitTime(now - waiter.waitingSince);
+      this.stats.recordGauges(this.runningCount, this.getQueuedCount());
+      waiter.resolve();
+    }
+    if (started && this.waitingCount === 0) {
+      this.emit('drain');
+    }
+  }
+}
+
+/**
+ * 実行待ちの関数を優先度の高い順、同じ優先度の場合は登録順に並べる
+ *
+ * @param {Waiter} a
+ * @param {Waiter} b
+ * @returns {number}
+ */
+function compareWaiters(a: Waiter, b: Waiter): number {
+  return (b.task.priority - a.task.priority) || (a.seq - b.seq);
+}
+
+/**
+ * 実行一覧に登録する関数を生成する
+ *
+ * @param {number} index
+ * @param {AsyncTask} asyncFunction
+ * @param {TaskOption} [options]
+ * @returns {Task}
+ */
+function createTask(index: number, asyncFunction: AsyncTask, options?: TaskOption): Task {
+  let resolve!: (value: any) => void;
+  let reject!: (error: unknown) => void;
+  const result = new Promise<any>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // 処理結果を参照しない場合に UnhandledPromiseRejection とならないようにする
+  result.catch(() => undefined);
+  const task: Task = {
+    index,
+    asyncFunction,
+    options: options || {},
+    priority: options?.priority ?? 0,
+    cancelled: false,
+    status: 'queued',
+    handle: {
+      id: options?.id ?? index,
+      index,
+      get status() {
+        return task.status;
+      },
+      result
+    },
+    resolve: value => {
+      task.status = 'fulfilled';
+      resolve(value);
+    },
+    reject: error => {
+      // 開始前に依存する処理の失敗により取り止めた場合のみ skipped とする
+      task.status = error instanceof TaskSkippedError && task.startedAt == null ? 'skipped' : 'rejected';
+      reject(error);
+    }
+  };
+  return task;
+}
+
+/**
+ * 処理を結果ごとに分類する
+ *
+ * @param {Task[]} tasks
+ * @returns {FailFastSummary}
+ */
+function summarizeTasks(tasks: Task[]): FailFastSummary {
+  const summary: FailFastSummary = { fulfilled: [], rejected: [], running: [], notStarted: [] };
+  for (const task of tasks) {
+    if (task.status === 'fulfilled') {
+      summary.fulfilled.push(task.index);
+    } else if (task.status === 'running') {
+      summary.running.push(task.index);
+    } else if ((task.cancelled || task.status === 'skipped') && task.startedAt == null) {
+      summary.notStarted.push(task.index);
+    } else {
+      summary.rejected.push(task.index);
+    }
+  }
+  return summary;
+}
+
+/**
+ * 処理の依存関係の循環を探す
+ *
+ * @param {Task[]} tasks
+ * @returns {(string | number)[]} 循環している処理の識別子. 先頭と末尾は同じ識別子となる. 循環がない場合は空
+ */
+function findCycle(tasks: Task[]): (string | number)[] {
+  // 0: 未訪問 / 1: 探索中 / 2: 探索済み
+  const states = new Map<Task, 0 | 1 | 2>();
+  for (const root of tasks) {
+    if ((states.get(root) ?? 0) !== 0) {
+      continue;
+    }
+    // 深い依存関係でもスタックが溢れないように、再帰を使わずに探索する
+    const path: { task: Task, next: number }[] = [{ task: root, next: 0 }];
+    states.set(root, 1);
+    while (path.length > 0) {
+      const current = path[path.length - 1];
+      const dependency = current.task.dependencies?.[current.next++];
+      if (dependency == null) {
+        states.set(current.task, 2);
+        path.pop();
+        continue;
+      }
+      const state = states.get(dependency) ?? 0;
+      if (state === 1) {
+        const start = path.findIndex(entry => entry.task === dependency);
+        return [...path.slice(start).map(entry => entry.task.handle.id), dependency.handle.id];
+      }
+      if (state === 0) {
+        states.set(dependency, 1);
+        path.push({ task: dependency, next: 0 });
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * 処理を最初に開始してからの経過時間を返す
+ *
+ * @param {Task} task
+ * @returns {number} 開始前の場合は0
+ */
+function getDuration(task: Task): number {
+  return task.startedAt == null ? 0 : Date.now() - task.startedAt;
+}
+
+/**
+ * リトライまでの待機時間を算出する
+ *
+ * @param {RetryOption} retry
+ * @param {number} attempt 失敗した試行の回数(1始まり)
+ * @returns {number}
+ */
+function getRetryDelay(retry: RetryOption, attempt: number): number {
+  const minDelayMs = retry.minDelayMs ?? 100;
+  const maxDelayMs = retry.maxDelayMs ?? 10000;
+  const factor = retry.factor ?? 2;
+  const delayMs = Math.min(maxDelayMs, minDelayMs * Math.pow(factor, attempt - 1));
+  return retry.jitter ? Math.random() * delayMs : delayMs;
 }
@@ -0,0 +1,104 @@
+import { RateLimitBudget, RateLimitOption } from './promise-concurrent-executor';
+
+/**
+ * 期間あたりの開始数を制限する
+ * ・sliding: 直近windowMsの間に開始した件数がlimit未満の場合に開始できる
+ * ・token-bucket: windowMsあたりlimit個の割合でトークンを補充し、トークンがある場合に開始できる(最大limit個まで蓄積)
+ */
+export class RateLimiter {
+
+  /** 流量制限設定 */
+  private option: Required<RateLimitOption>;
+  /** 期間内に開始した時刻(sliding) */
+  private timestamps: number[] = [];
+  /** 期間内に開始した時刻の先頭位置(sliding) */
+  private head = 0;
+  /** 残りのトークン数(token-bucket) */
+  private tokens: number;
+  /** 最後にトークンを補充した時刻(token-bucket) */
+  private refilledAt: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {RateLimitOption} option
+   */
+  constructor(option: RateLimitOption) {
+    if (!(option.limit > 0) || !(option.windowMs > 0)) {
+      throw new Error('rateLimit.limit and rateLimit.windowMs must be positive numbers.');
+    }
+    this.option = {
+      strategy: 'sliding',
+      ...option
+    };
+    this.tokens = option.limit;
+    this.refilledAt = Date.now();
+  }
+
+  /**
+   * 開始できる場合は枠を1つ消費する
+   *
+   * @param {number} [now]
+   * @returns {number} 開始できない場合は開始できるようになるまでの時間(ms). 開始できた場合は0
+   */
+  public acquire(now = Date.now()): number {
+    const waitMs = this.getWaitMs(now);
+    if (waitMs > 0) {
+      return waitMs;
+    }
+    if (this.option.strategy === 'token-bucket') {
+      this.tokens -= 1;
+    } else {
+      this.timestamps.push(now);
+    }
+    return 0;
+  }
+
+  /**
+   * 現在の残り枠を返す
+   *
+   * @param {number} [now]
+   * @returns {RateLimitBudget}
+   */
+  public getBudget(now = Date.now()): RateLimitBudget {
+    const waitMs = this.getWaitMs(now);
+    const remaining = this.option.strategy === 'token-bucket'
+      ? Math.floor(this.tokens)
+      : this.option.limit - (this.timestamps.length - this.head);
+    return {
+      limit: this.option.limit,
+      remaining,
+      waitMs
+    };
+  }
+
+  /**
+   * 開始できるようになるまでの時間を返す
+   *
+   * @param {number} now
+   * @returns {number}
+   */
+  private getWaitMs(now: number): number {
+    const { limit, windowMs } = this.option;
+    if (this.option.strategy === 'token-bucket') {
+      this.tokens = Math.min(limit, this.tokens + (now - this.refilledAt) * limit / windowMs);
+      this.refilledAt = now;
+      return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * windowMs / limit);
+    }
+    // 期間外になった開始時刻を取り除く
+    while (this.head < this.timestamps.length && this.timestamps[this.head] <= now - windowMs) {
+      this.head++;
+    }
+    if (this.head === this.timestamps.length) {
+      this.timestamps.length = 0;
+      this.head = 0;
+    } else if (this.head > 1024 && this.head * 2 > this.timestamps.length) {
+      this.timestamps.splice(0, this.head);
+      this.head = 0;
+    }
+    if (this.timestamps.length - this.head < limit) {
+      return 0;
+    }
+    return this.timestamps[this.head] + windowMs - now;
+  }
+}
@@ -0,0 +1,166 @@
+import { TaskAbortedError } from './errors';
+import { PromiseConcurrentExecutor, ReleaseFunction, SemaphoreAcquireOption, SemaphoreOption } from './promise-concurrent-executor';
+import { ConcurrencyPool } from './concurrency-pool';
+
+/**
+ * 同時に取得できる枠の数を制限する
+ * 枠の割り当ては PromiseConcurrentExecutor と同じ(優先度の高い順、同じ優先度の場合は取得を要求した順. weight の大きい要求は追い越されない)
+ * 取得した枠は、返却された関数を呼び出すまで保持する
+ */
+export class Semaphore {
+
+  /** 枠の割り当てを行う. 取得ごとに、解放されるまで完了しない処理を登録する */
+  private executor: PromiseConcurrentExecutor;
+  /** 容量 */
+  private capacity: number;
+  /** 共有する並列実行数の上限 */
+  private pool?: ConcurrencyPool;
+  /** 取得されている枠の合計. 解放後、割り当てに反映されるまでは取得中として数える */
+  private used = 0;
+  /** 取得を待っている要求の数 */
+  private pending = 0;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} capacity
+   * @param {SemaphoreOption} [option]
+   */
+  constructor(capacity: number, option?: SemaphoreOption) {
+    if (!(capacity >= 1)) {
+      throw new Error('Semaphore capacity must be at least 1.');
+    }
+    this.capacity = capacity;
+    this.pool = option?.pool;
+    this.executor = new PromiseConcurrentExecutor(capacity, { pool: this.pool });
+    this.executor.start();
+  }
+
+  /**
+   * 容量を返す
+   *
+   * @returns {number}
+   */
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * 取得できる枠の数を返す. 共有プールの指定がある場合はその空きを含めた最小値とする
+   *
+   * @returns {number}
+   */
+  public getAvailable(): number {
+    const available = Math.max(0, this.capacity - this.used);
+    return this.pool != null ? Math.min(available, this.pool.getAvailable()) : available;
+  }
+
+  /**
+   * 取得を待っている要求の数を返す
+   *
+   * @returns {number}
+   */
+  public getPendingCount(): number {
+    return this.pending;
+  }
+
+  /**
+   * 枠を取得する. 空きがない場合は空きができるまで待機する
+   *
+   * @param {number | SemaphoreAcquireOption} [option] 数値の場合は weight
+   * @returns {Promise<ReleaseFunction>} 取得した枠を解放する関数
+   */
+  public acquire(option?: number | SemaphoreAcquireOption): Promise<ReleaseFunction> {
+    const { weight = 1, priority, signal } = typeof option === 'number' ? { weight: option } : option ?? {};
+    return new Promise<ReleaseFunction>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TaskAbortedError(signal.reason));
+        return;
+      }
+      // 取得後に signal がabortされても枠を解放しないよう、取得までの間のみ連動するシグナルを渡す
+      const controller = new AbortController();
+      let waiting = true;
+      const stopWaiting = () => {
+        if (waiting) {
+          waiting = false;
+          this.pending--;
+          signal?.removeEventListener('abort', onAbort);
+        }
+      };
+      const onAbort = () => {
+        // 実行待ち一覧からは割り当ての時点で除外されるため、それを待たずにrejectする
+        stopWaiting();
+        controller.abort(signal!.reason);
+        reject(new TaskAbortedError(signal!.reason));
+      };
+      const handle = this.executor.add(() => {
+        stopWaiting();
+        this.used += weight;
+        return new Promise<void>(done => resolve(once(done)));
+      }, { weight, priority, signal: controller.signal });
+      this.pending++;
+      signal?.addEventListener('abort', onAbort, { once: true });
+      handle.result.then(() => {
+        this.used -= weight;
+      }, error => {
+        stopWaiting();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * 待機せずに枠を取得する
+   * 取得を待っている要求がある場合は、空きがあっても取得しない
+   *
+   * @param {number} [weight]
+   * @returns {ReleaseFunction | undefined} 取得できない場合はundefined
+   */
+  public tryAcquire(weight = 1): ReleaseFunction | undefined {
+    const available = this.pending === 0 && this.used + weight <= this.capacity && (this.pool?.canAcquire(weight) ?? true);
+    if (!available && weight <= this.capacity) {
+      return undefined;
+    }
+    // 空きがある場合は登録と同時に割り当てられる. 不正な weight の場合は登録時に例外を送出する
+    let done!: () => void;
+    const released = new Promise<void>(resolve => done = resolve);
+    const handle = this.executor.add(() => released, { weight });
+    this.used += weight;
+    handle.result.then(() => {
+      this.used -= weight;
+    });
+    return once(done);
+  }
+
+  /**
+   * 枠を取得してから関数を実行し、完了後に解放する
+   *
+   * @param {() => T | PromiseLike<T>} fn
+   * @param {number | SemaphoreAcquireOption} [option]
+   * @returns {Promise<Awaited<T>>}
+   */
+  public async runExclusive<T>(fn: () => T | PromiseLike<T>, option?: number | SemaphoreAcquireOption): Promise<Awaited<T>> {
+    const release = await this.acquire(option);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * 最初の呼び出しのみ実行する関数を生成する
+ *
+ * @param {() => void} fn
+ * @returns {ReleaseFunction}
+ */
+function once(fn: () => void): ReleaseFunction {
+  let called = false;
+  return () => {
+    if (!called) {
+      called = true;
+      fn();
+    }
+  };
+}
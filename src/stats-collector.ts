@@ -0,0 +1,158 @@
+import { ExecutorStats, MetricsSink } from './promise-concurrent-executor';
+
+/**
+ * 累計のカウンター
+ */
+type CounterName = 'completed' | 'failed' | 'retried' | 'timedOut' | 'deduplicated' | 'cacheHits';
+
+/**
+ * 実行統計を集計し、MetricsSink へ送信する
+ */
+export class StatsCollector {
+
+  /** 送信先 */
+  private sink?: MetricsSink;
+  /** 送信先で例外が発生した場合に呼び出す */
+  private onError?: (method: keyof MetricsSink, error: unknown) => void;
+  /** 実行時間の百分位数を算出する対象の件数 */
+  private windowSize: number;
+  /** 累計のカウンター */
+  private counters: Record<CounterName, number> = {
+    completed: 0,
+    failed: 0,
+    retried: 0,
+    timedOut: 0,
+    deduplicated: 0,
+    cacheHits: 0
+  };
+  /** 最大同時実行数 */
+  private peakConcurrency = 0;
+  /** 実行待ち時間の累計(ms) */
+  private totalWaitTime = 0;
+  /** 実行時間の累計(ms) */
+  private totalRunTime = 0;
+  /** 直近の実行時間(ms). windowSize件を上限とするリングバッファ */
+  private runTimes: number[] = [];
+  /** 次に実行時間を書き込む位置 */
+  private runTimeIndex = 0;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} windowSize
+   * @param {MetricsSink} [sink]
+   * @param {(method: keyof MetricsSink, error: unknown) => void} [onError]
+   */
+  constructor(windowSize: number, sink?: MetricsSink, onError?: (method: keyof MetricsSink, error: unknown) => void) {
+    this.windowSize = Math.max(1, windowSize);
+    this.sink = sink;
+    this.onError = onError;
+  }
+
+  /**
+   * カウンターを加算する
+   *
+   * @param {CounterName} name
+   */
+  public increment(name: CounterName): void {
+    this.counters[name]++;
+    this.send('increment', () => this.sink?.increment?.(name, 1));
+  }
+
+  /**
+   * 実行待ち時間を記録する
+   *
+   * @param {number} waitTime
+   */
+  public recordWaitTime(waitTime: number): void {
+    this.totalWaitTime += waitTime;
+    this.send('observe', () => this.sink?.observe?.('waitTime', waitTime));
+  }
+
+  /**
+   * 実行時間を記録する
+   *
+   * @param {number} runTime
+   */
+  public recordRunTime(runTime: number): void {
+    this.totalRunTime += runTime;
+    if (this.runTimes.length < this.windowSize) {
+      this.runTimes.push(runTime);
+    } else {
+      this.runTimes[this.runTimeIndex] = runTime;
+    }
+    this.runTimeIndex = (this.runTimeIndex + 1) % this.windowSize;
+    this.send('observe', () => this.sink?.observe?.('runTime', runTime));
+  }
+
+  /**
+   * 実行数と実行待ち数の変化を記録する
+   *
+   * @param {number} running
+   * @param {number} queued
+   */
+  public recordGauges(running: number, queued: number): void {
+    this.peakConcurrency = Math.max(this.peakConcurrency, running);
+    this.send('gauge', () => {
+      this.sink?.gauge?.('running', running);
+      this.sink?.gauge?.('queued', queued);
+    });
+  }
+
+  /**
+   * 集計結果を返す
+   *
+   * @param {number} running
+   * @param {number} queued
+   * @returns {ExecutorStats}
+   */
+  public snapshot(running: number, queued: number): ExecutorStats {
+    const sorted = this.runTimes.slice().sort((a, b) => a - b);
+    return {
+      queued,
+      running,
+      ...this.counters,
+      peakConcurrency: this.peakConcurrency,
+      totalWaitTime: this.totalWaitTime,
+      totalRunTime: this.totalRunTime,
+      latency: {
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        p99: percentile(sorted, 99)
+      }
+    };
+  }
+
+  /**
+   * MetricsSink へ送信する
+   * 送信先で発生した例外は実行に影響させず、onError へ通知する
+   *
+   * @param {keyof MetricsSink} method
+   * @param {() => void} callback
+   */
+  private send(method: keyof MetricsSink, callback: () => void): void {
+    if (this.sink == null) {
+      return;
+    }
+    try {
+      callback();
+    } catch (error) {
+      this.onError?.(method, error);
+    }
+  }
+}
+
+/**
+ * 昇順に並んだ値から百分位数を算出する(最近接順位法)
+ *
+ * @param {number[]} sorted
+ * @param {number} p
+ * @returns {number} 値がない場合は0
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil(p / 100 * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
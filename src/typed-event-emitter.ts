@@ -0,0 +1,122 @@
+/**
+ * イベントリスナー
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * 登録されたイベントリスナー
+ */
+interface ListenerEntry<T> {
+  /** イベントリスナー */
+  listener: EventListener<T>;
+  /** 1回のみ呼び出すかどうか */
+  once: boolean;
+}
+
+/**
+ * 型付きのイベントエミッター
+ * Node.js の events モジュールに依存せず、ブラウザでも動作する
+ * リスナー内で送出された例外はイベントの送出元へ伝播させず、非同期に再送出する
+ */
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown }> {
+
+  /** イベントごとのリスナー一覧 */
+  private listeners = new Map<keyof Events, ListenerEntry<any>[]>();
+
+  /**
+   * イベントリスナーを登録する
+   *
+   * @param {K} event
+   * @param {EventListener<Events[K]>} listener
+   * @returns {this}
+   */
+  public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    return this.addListener(event, listener, false);
+  }
+
+  /**
+   * 1回のみ呼び出されるイベントリスナーを登録する
+   *
+   * @param {K} event
+   * @param {EventListener<Events[K]>} listener
+   * @returns {this}
+   */
+  public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    return this.addListener(event, listener, true);
+  }
+
+  /**
+   * イベントリスナーを解除する
+   *
+   * @param {K} event
+   * @param {EventListener<Events[K]>} listener
+   * @returns {this}
+   */
+  public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    const entries = this.listeners.get(event);
+    if (entries != null) {
+      const index = entries.findIndex(entry => entry.listener === listener);
+      if (index >= 0) {
+        entries.splice(index, 1);
+      }
+      if (entries.length === 0) {
+        this.listeners.delete(event);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * 登録されているイベントリスナーの数を返す
+   *
+   * @param {K} event
+   * @returns {number}
+   */
+  public listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /**
+   * イベントを送出する
+   *
+   * @param {K} event
+   * @param {Events[K]} [payload]
+   */
+  protected emit<K extends keyof Events>(event: K, ...[payload]: Events[K] extends void ? [] : [Events[K]]): void {
+    const entries = this.listeners.get(event);
+    if (entries == null) {
+      return;
+    }
+    // リスナー内で登録・解除された場合の影響を受けないように複製してから呼び出す
+    for (const entry of entries.slice()) {
+      if (entry.once) {
+        this.off(event, entry.listener);
+      }
+      try {
+        entry.listener(payload);
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    }
+  }
+
+  /**
+   * イベントリスナーを登録する
+   *
+   * @param {K} event
+   * @param {EventListener<Events[K]>} listener
+   * @param {boolean} once
+   * @returns {this}
+   */
+  private addListener<K extends keyof Events>(event: K, listener: EventListener<Events[K]>, once: boolean): this {
+    const entries = this.listeners.get(event);
+    if (entries == null) {
+      this.listeners.set(event, [{ listener, once }]);
+    } else {
+      entries.push({ listener, once });
+    }
+    return this;
+  }
+}
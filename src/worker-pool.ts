@@ -0,0 +1,229 @@
+import { ResourceLimits, TransferListItem, Worker } from 'worker_threads';
+import { WorkerExitError } from './errors';
+import { DependencyResults } from './promise-concurrent-executor';
+
+/**
+ * ワーカースレッドで実行するコード
+ * ビルド後のファイル配置やテスト環境に依存しないよう、ファイルではなく文字列として起動する
+ * 処理モジュールは import() で読み込むため CommonJS / ES Modules のいずれも実行できる
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+const modules = new Map();
+const load = async url => {
+  if (!modules.has(url)) {
+    modules.set(url, import(url).then(loaded => {
+      const task = typeof loaded.default === 'function' ? loaded.default : loaded.default?.default;
+      if (typeof task !== 'function') {
+        throw new TypeError('Task module "' + url + '" must export a default function.');
+      }
+      return task;
+    }));
+  }
+  return modules.get(url);
+};
+const serialize = error => error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : undefined;
+parentPort.on('message', async ({ url, args, dependencies }) => {
+  const transferList = [];
+  try {
+    const task = await load(url);
+    const value = await task(args, { dependencies, transfer: (...items) => transferList.push(...items) });
+    parentPort.postMessage({ status: 'fulfilled', value }, transferList);
+  } catch (reason) {
+    try {
+      parentPort.postMessage({ status: 'rejected', reason: serialize(reason) ? undefined : reason, error: serialize(reason) });
+    } catch (cloneError) {
+      parentPort.postMessage({ status: 'rejected', error: serialize(cloneError) });
+    }
+  }
+});
+`;
+
+/**
+ * ワーカースレッドから返却される処理結果
+ */
+type WorkerResult =
+  | { status: 'fulfilled'; value: unknown }
+  | { status: 'rejected'; reason?: unknown; error?: { name: string; message: string; stack?: string } };
+
+/**
+ * ワーカースレッドで実行中の処理
+ */
+interface Job {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  /** 処理の完了時にシグナルのリスナーを解除する */
+  cleanup: () => void;
+}
+
+/**
+ * プールで管理するワーカースレッド
+ */
+interface PooledWorker {
+  worker: Worker;
+  /** 実行中の処理 */
+  job?: Job;
+  /** ワーカー内で捕捉されなかった例外. 終了時に実行中の処理をこの例外でrejectする */
+  error?: unknown;
+}
+
+/**
+ * 処理モジュールを実行するワーカースレッドの一覧
+ * ・ワーカーは必要になった時点で起動し、処理の完了後は再利用する
+ * ・異常終了したワーカー、タイムアウトまたは中断により停止したワーカーは破棄し、次の処理で新たに起動する
+ * ・待機中のワーカーはプロセスの終了を妨げない
+ * 同時に実行する処理の数は呼び出し元で制御する
+ */
+export class WorkerPool {
+
+  /** ワーカーのリソース制限 */
+  private resourceLimits?: ResourceLimits;
+  /** 起動しているすべてのワーカー */
+  private workers = new Set<PooledWorker>();
+  /** 待機中のワーカー */
+  private idle: PooledWorker[] = [];
+
+  /**
+   * コンストラクタ
+   *
+   * @param {ResourceLimits} [resourceLimits]
+   */
+  constructor(resourceLimits?: ResourceLimits) {
+    this.resourceLimits = resourceLimits;
+  }
+
+  /**
+   * 待機中のワーカーで処理モジュールを実行する. 待機中のワーカーがない場合は起動する
+   * シグナルがabortされた場合はワーカーを停止し、シグナルの reason でrejectする
+   *
+   * @param {string} url 処理モジュールの file: URL
+   * @param {unknown} args
+   * @param {DependencyResults} dependencies
+   * @param {TransferListItem[]} transferList
+   * @param {AbortSignal} signal
+   * @returns {Promise<unknown>}
+   */
+  public run(url: string, args: unknown, dependencies: DependencyResults, transferList: TransferListItem[], signal: AbortSignal): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const pooled = this.idle.pop() ?? this.spawn();
+      const onAbort = () => {
+        pooled.job = undefined;
+        this.discard(pooled);
+        reject(signal.reason);
+      };
+      pooled.job = { resolve, reject, cleanup: () => signal.removeEventListener('abort', onAbort) };
+      signal.addEventListener('abort', onAbort, { once: true });
+      pooled.worker.ref();
+      try {
+        pooled.worker.postMessage({ url, args, dependencies }, transferList);
+      } catch (error) {
+        // 引数を複製・転送できない場合はワーカーを待機中に戻す
+        pooled.job.cleanup();
+        pooled.job = undefined;
+        this.release(pooled);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * すべてのワーカーを停止する. 実行中の処理は WorkerExitError でrejectされる
+   *
+   * @returns {Promise<void>}
+   */
+  public async terminate(): Promise<void> {
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle.length = 0;
+    await Promise.all(workers.map(pooled => pooled.worker.terminate()));
+  }
+
+  /**
+   * ワーカーを起動する
+   *
+   * @returns {PooledWorker}
+   */
+  private spawn(): PooledWorker {
+    const worker = new Worker(WORKER_SOURCE, { eval: true, resourceLimits: this.resourceLimits });
+    const pooled: PooledWorker = { worker };
+    worker.on('message', (result: WorkerResult) => {
+      const job = pooled.job;
+      if (job == null) {
+        return;
+      }
+      job.cleanup();
+      pooled.job = undefined;
+      this.release(pooled);
+      if (result.status === 'fulfilled') {
+        job.resolve(result.value);
+      } else {
+        job.reject(result.error != null ? restoreError(result.error) : result.reason);
+      }
+    });
+    worker.on('error', error => {
+      pooled.error = error;
+    });
+    worker.on('exit', exitCode => {
+      this.remove(pooled);
+      const job = pooled.job;
+      if (job != null) {
+        job.cleanup();
+        pooled.job = undefined;
+        job.reject(pooled.error ?? new WorkerExitError(exitCode));
+      }
+    });
+    this.workers.add(pooled);
+    return pooled;
+  }
+
+  /**
+   * 処理が完了したワーカーを待機中に戻す
+   *
+   * @param {PooledWorker} pooled
+   */
+  private release(pooled: PooledWorker): void {
+    if (!this.workers.has(pooled)) {
+      return;
+    }
+    pooled.worker.unref();
+    this.idle.push(pooled);
+  }
+
+  /**
+   * ワーカーを停止して一覧から除外する
+   *
+   * @param {PooledWorker} pooled
+   */
+  private discard(pooled: PooledWorker): void {
+    this.remove(pooled);
+    pooled.worker.terminate().catch(() => {
+      // 停止済みの場合は何もしない
+    });
+  }
+
+  /**
+   * ワーカーを一覧から除外する
+   *
+   * @param {PooledWorker} pooled
+   */
+  private remove(pooled: PooledWorker): void {
+    this.workers.delete(pooled);
+    const index = this.idle.indexOf(pooled);
+    if (index >= 0) {
+      this.idle.splice(index, 1);
+    }
+  }
+}
+
+/**
+ * ワーカースレッドから受け取ったエラーの情報を Error に復元する
+ *
+ * @param {{ name: string; message: string; stack?: string }} error
+ * @returns {Error}
+ */
+function restoreError(error: { name: string; message: string; stack?: string }): Error {
+  const restored = new Error(error.message);
+  restored.name = error.name;
+  restored.stack = error.stack;
+  return restored;
+}
@@ -0,0 +1,157 @@
+import { ResourceLimits, TransferListItem } from 'worker_threads';
+import { pathToFileURL } from 'url';
+import {
+  DependencyResults,
+  PromiseConcurrentExecutor,
+  PromiseConcurrentExecutorOption,
+  TaskDescriptor,
+  TaskHandle,
+  TaskOption
+} from './promise-concurrent-executor';
+import { WorkerPool } from './worker-pool';
+
+/**
+ * 処理モジュールへ渡す実行情報
+ */
+export interface WorkerTaskContext {
+  /** 依存する処理の結果. キーを依存先の識別子とする */
+  dependencies: DependencyResults;
+  /** 結果とともに呼び出し元へ転送する(複製しない)オブジェクトを指定する. 転送後はワーカー内で使用できない */
+  transfer: (...items: TransferListItem[]) => void;
+}
+
+/**
+ * 処理モジュールが default export する関数
+ */
+export type WorkerTask<A = any, R = any> = (args: A, context: WorkerTaskContext) => R | Promise<R>;
+
+/**
+ * WorkerThreadExecutor のオプション
+ */
+export interface WorkerThreadExecutorOption extends Pick<PromiseConcurrentExecutorOption, 'interval' | 'retry' | 'failFast'> {
+  /** TaskDescriptor.name ごとの処理モジュール. 絶対パスまたは file: URL を指定する */
+  modules: Record<string, string | URL>;
+  /** 関数単位で timeoutMs を指定しない場合のタイムアウト時間(ms). 超過した処理のワーカーは停止する */
+  timeoutMs?: number;
+  /** ワーカーのリソース制限 */
+  resourceLimits?: ResourceLimits;
+}
+
+/**
+ * ワーカースレッドで実行する処理のオプション
+ */
+export interface WorkerTaskOption extends TaskOption {
+  /** 引数とともにワーカーへ転送する(複製しない)オブジェクト. 転送後は呼び出し元で使用できない */
+  transfer?: TransferListItem[];
+}
+
+/**
+ * 処理モジュールをワーカースレッドで並列実行する(Node.js のみ)
+ * 並列実行数の制御・優先度・リトライ・タイムアウト等は PromiseConcurrentExecutor と同じ
+ * ワーカーは並列実行数まで起動して再利用し、タイムアウト・中断・異常終了したワーカーは停止して新たに起動する
+ */
+export class WorkerThreadExecutor {
+
+  /** 処理の実行を制御する */
+  private executor: PromiseConcurrentExecutor;
+  /** 処理を実行するワーカー */
+  private pool: WorkerPool;
+  /** TaskDescriptor.name ごとの処理モジュールの file: URL */
+  private modules = new Map<string, string>();
+  /** タイムアウト時間(ms) */
+  private timeoutMs?: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param {number} concurrency ワーカーの最大数
+   * @param {WorkerThreadExecutorOption} option
+   */
+  constructor(concurrency: number, option: WorkerThreadExecutorOption) {
+    const { modules, timeoutMs, resourceLimits, ...executorOption } = option;
+    this.executor = new PromiseConcurrentExecutor(concurrency, executorOption);
+    this.pool = new WorkerPool(resourceLimits);
+    for (const [name, module] of Object.entries(modules)) {
+      this.modules.set(name, module instanceof URL || module.startsWith('file:') ? String(module) : pathToFileURL(module).href);
+    }
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * 実行待ちの処理の数を返す
+   *
+   * @returns {number}
+   */
+  public size(): number {
+    return this.executor.size();
+  }
+
+  /**
+   * 処理を実行一覧に追加する
+   * 処理モジュールの default export の関数に descriptor.args を渡して実行する
+   *
+   * @param {TaskDescriptor} descriptor
+   * @param {WorkerTaskOption} [options]
+   * @returns {TaskHandle<R>}
+   */
+  public add<R = any>(descriptor: TaskDescriptor, options?: WorkerTaskOption): TaskHandle<R> {
+    const url = this.modules.get(descriptor.name);
+    if (url == null) {
+      throw new Error(`Task "${descriptor.name}" is not registered.`);
+    }
+    const { transfer = [], ...taskOptions } = options ?? {};
+    return this.executor.add<R>(
+      (signal, dependencies) => this.pool.run(url, descriptor.args, dependencies, transfer, signal) as Promise<R>,
+      { timeoutMs: this.timeoutMs, ...taskOptions }
+    );
+  }
+
+  /**
+   * 複数の処理を実行一覧に追加する
+   *
+   * @param {TaskDescriptor[]} descriptors
+   * @param {WorkerTaskOption} [options] すべての処理に共通のオプション. transfer は指定不可
+   * @returns {TaskHandle[]}
+   */
+  public addAll(descriptors: TaskDescriptor[], options?: Omit<WorkerTaskOption, 'transfer'>): TaskHandle[] {
+    return descriptors.map(descriptor => this.add(descriptor, options));
+  }
+
+  /**
+   * すべての処理の実行を開始し、完了後の結果を返却する
+   *
+   * @param {Pick<PromiseConcurrentExecutorOption, 'interval' | 'retry' | 'failFast'>} [options]
+   * @returns {Promise<T>}
+   */
+  public executeAll<T extends unknown[] = any[]>(options?: Pick<PromiseConcurrentExecutorOption, 'interval' | 'retry' | 'failFast'>): Promise<T> {
+    return this.executor.executeAll<T>(options);
+  }
+
+  /**
+   * すべての処理の実行を開始し、すべての処理の完了後に結果を返却する
+   *
+   * @param {Pick<PromiseConcurrentExecutorOption, 'interval' | 'retry'>} [options]
+   * @returns {Promise<PromiseSettledResult<T>[]>}
+   */
+  public executeAllSettled<T = any>(options?: Pick<PromiseConcurrentExecutorOption, 'interval' | 'retry'>): Promise<PromiseSettledResult<T>[]> {
+    return this.executor.executeAllSettled<T>(options);
+  }
+
+  /**
+   * 実行中の処理のワーカーを停止し、開始前の処理を取り止める
+   *
+   * @param {unknown} [reason]
+   */
+  public abort(reason?: unknown): void {
+    this.executor.abort(reason);
+  }
+
+  /**
+   * すべてのワーカーを停止する. 待機中のワーカーはプロセスの終了を妨げないため、呼び出しは任意
+   *
+   * @returns {Promise<void>}
+   */
+  public terminate(): Promise<void> {
+    return this.pool.terminate();
+  }
+}
@@ -0,0 +1,75 @@
+import { AdaptiveLimiter } from '@/adaptive-limiter';
+
+describe('@/adaptive-limiter.ts', () => {
+  describe('constructor', () => {
+    it('constructor.01', () => {
+      // 不正な設定
+      expect(() => new AdaptiveLimiter({ min: 0, max: 10 }, 1)).toThrow();
+      expect(() => new AdaptiveLimiter({ min: 5, max: 4 }, 5)).toThrow();
+      expect(() => new AdaptiveLimiter({ min: 1, max: 10, decrease: 1 }, 5)).toThrow();
+      // 初期値は min〜max の範囲に丸める
+      expect(new AdaptiveLimiter({ min: 2, max: 10 }, 1).getLimit()).toBe(2);
+      expect(new AdaptiveLimiter({ min: 2, max: 10 }, 20).getLimit()).toBe(10);
+    });
+  });
+  describe('record', () => {
+    it('record.01', () => {
+      // aimd: 実行待ちの処理がある場合は windowSize 件ごとに increase だけ増加する
+      const limiter = new AdaptiveLimiter({ min: 1, max: 4, windowSize: 2 }, 2);
+      expect(limiter.record(10, false, true)).toBeUndefined();
+      expect(limiter.record(10, false, false)).toBe(3);
+      // 実行待ちの処理がない場合は増加しない
+      expect(limiter.record(10, false, false)).toBeUndefined();
+      expect(limiter.record(10, false, false)).toBeUndefined();
+      limiter.record(10, false, true);
+      expect(limiter.record(10, false, true)).toBe(4);
+      // max を超えない
+      limiter.record(10, false, true);
+      expect(limiter.record(10, false, true)).toBeUndefined();
+      expect(limiter.getLimit()).toBe(4);
+    });
+    it('record.02', () => {
+      // 過負荷は即座に減少し、同じ期間内の過負荷では再度減少しない
+      const limiter = new AdaptiveLimiter({ min: 2, max: 20, windowSize: 3 }, 16);
+      expect(limiter.record(10, true, true)).toBe(8);
+      expect(limiter.record(10, true, true)).toBeUndefined();
+      // 減少した期間の見直しでは増加しない
+      expect(limiter.record(10, false, true)).toBeUndefined();
+      expect(limiter.record(10, true, true)).toBe(4);
+      limiter.record(10, false, true);
+      limiter.record(10, false, true);
+      // min を下回らない
+      expect(limiter.record(10, true, true)).toBe(2);
+      limiter.record(10, false, true);
+      limiter.record(10, false, true);
+      expect(limiter.record(10, true, true)).toBeUndefined();
+    });
+    it('record.03', () => {
+      // aimd: 平均実行時間が latencyThresholdMs を超えた場合は減少する
+      const limiter = new AdaptiveLimiter({ min: 1, max: 20, windowSize: 2, latencyThresholdMs: 100, decrease: 0.75 }, 8);
+      limiter.record(50, false, true);
+      expect(limiter.record(200, false, true)).toBe(6);
+      limiter.record(50, false, true);
+      expect(limiter.record(100, false, true)).toBe(7);
+    });
+    it('record.04', () => {
+      // gradient: 最小の平均実行時間 * tolerance を超えた割合に応じて減少する
+      const limiter = new AdaptiveLimiter({ min: 1, max: 100, strategy: 'gradient', windowSize: 1, tolerance: 2 }, 10);
+      expect(limiter.record(100, false, true)).toBe(11);
+      expect(limiter.record(150, false, true)).toBe(12);
+      // 300ms: 100 * 2 / 300 = 0.66
+      expect(limiter.record(300, false, true)).toBe(8 + 1);
+      // 比率は0.5を下限とする
+      expect(limiter.record(1000, false, false)).toBe(4);
+    });
+  });
+  describe('setLimit', () => {
+    it('setLimit.01', () => {
+      const limiter = new AdaptiveLimiter({ min: 2, max: 10 }, 5);
+      expect(limiter.setLimit(1)).toBe(2);
+      expect(limiter.setLimit(12)).toBe(10);
+      expect(limiter.setLimit(7)).toBe(7);
+      expect(limiter.getLimit()).toBe(7);
+    });
+  });
+});
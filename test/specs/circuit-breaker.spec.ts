@@ -0,0 +1,102 @@
+import { CircuitBreaker } from '@/circuit-breaker';
+import { CircuitState } from '@/promise-concurrent-executor';
+
+describe('@/circuit-breaker.ts', () => {
+  const createBreaker = (changes: CircuitState[] = []) => new CircuitBreaker({
+    failureThreshold: 0.5,
+    minimumRequests: 4,
+    windowMs: 1000,
+    cooldownMs: 500,
+    halfOpenProbes: 2
+  }, (_, state) => changes.push(state));
+
+  describe('constructor', () => {
+    it('constructor.01', () => {
+      // 不正な設定
+      expect(() => new CircuitBreaker({ failureThreshold: 0 }, () => undefined)).toThrow();
+      expect(() => new CircuitBreaker({ failureThreshold: 1.5 }, () => undefined)).toThrow();
+    });
+  });
+  describe('record', () => {
+    it('record.01', () => {
+      // 試行数が minimumRequests に達するまでは open へ移行しない
+      const breaker = createBreaker();
+      const generation = breaker.acquire();
+      breaker.record('failure', generation, 0);
+      breaker.record('failure', generation, 0);
+      breaker.record('failure', generation, 0);
+      expect(breaker.getState(0)).toBe('closed');
+      breaker.record('success', generation, 0);
+      expect(breaker.getState(0)).toBe('open');
+    });
+    it('record.02', () => {
+      // windowMs より前の試行は失敗率に含めない
+      const breaker = createBreaker();
+      const generation = breaker.acquire();
+      breaker.record('failure', generation, 0);
+      breaker.record('failure', generation, 0);
+      breaker.record('success', generation, 1000);
+      breaker.record('success', generation, 1000);
+      breaker.record('failure', generation, 1000);
+      expect(breaker.getState(1000)).toBe('closed');
+      breaker.record('failure', generation, 1000);
+      expect(breaker.getState(1000)).toBe('open');
+      // ignored は数えない
+      const ignored = createBreaker();
+      for (let i = 0; i < 4; i++) {
+        ignored.record('ignored', ignored.acquire(), 0);
+      }
+      ignored.record('failure', ignored.acquire(), 0);
+      expect(ignored.getState(0)).toBe('closed');
+    });
+    it('record.03', () => {
+      // half-open ですべて成功した場合は closed へ、失敗した場合は open へ移行する
+      const changes: CircuitState[] = [];
+      const breaker = createBreaker(changes);
+      for (let i = 0; i < 4; i++) {
+        breaker.record('failure', breaker.acquire(), 0);
+      }
+      expect(breaker.getWaitMs(100)).toBe(400);
+      expect(breaker.getWaitMs(500)).toBe(0);
+      const probe = breaker.acquire();
+      breaker.acquire();
+      expect(breaker.getWaitMs(500)).toBe(Infinity);
+      // 結果が得られなかった試行の枠は戻す
+      breaker.record('ignored', probe, 500);
+      expect(breaker.getWaitMs(500)).toBe(0);
+      breaker.acquire();
+      breaker.record('success', probe, 600);
+      breaker.record('failure', probe, 600);
+      expect(breaker.getWaitMs(600)).toBe(500);
+      breaker.getState(1100);
+      const next = breaker.acquire();
+      breaker.acquire();
+      breaker.record('success', next, 1200);
+      breaker.record('success', next, 1200);
+      expect(breaker.getState(1200)).toBe('closed');
+      expect(changes).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+    });
+    it('record.04', () => {
+      // open へ移行する前に開始した試行の結果は、half-open の判定にも closed へ戻った後の判定にも使用しない
+      const breaker = createBreaker();
+      const stale = breaker.acquire();
+      for (let i = 0; i < 4; i++) {
+        breaker.record('failure', breaker.acquire(), 0);
+      }
+      expect(breaker.getState(500)).toBe('half-open');
+      breaker.record('success', stale, 500);
+      breaker.record('success', stale, 500);
+      expect(breaker.getState(500)).toBe('half-open');
+      expect(breaker.getWaitMs(500)).toBe(0);
+      const probe = breaker.acquire();
+      breaker.acquire();
+      breaker.record('success', probe, 600);
+      breaker.record('success', probe, 600);
+      expect(breaker.getState(600)).toBe('closed');
+      for (let i = 0; i < 4; i++) {
+        breaker.record('failure', stale, 600);
+      }
+      expect(breaker.getState(600)).toBe('closed');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { ConcurrencyPool } from '@/concurrency-pool';
+
+describe('@/concurrency-pool.ts', () => {
+  describe('constructor', () => {
+    it('constructor.01', () => {
+      // 不正な設定
+      expect(() => new ConcurrencyPool(0)).toThrow('ConcurrencyPool capacity must be at least 1.');
+      expect(() => new ConcurrencyPool(NaN)).toThrow('ConcurrencyPool capacity must be at least 1.');
+    });
+  });
+  describe('tryAcquire', () => {
+    it('tryAcquire.01', () => {
+      // 上限まで枠を取得できる
+      const pool = new ConcurrencyPool(3);
+      expect(pool.tryAcquire(2)).toBe(true);
+      expect(pool.tryAcquire(2)).toBe(false);
+      expect(pool.tryAcquire()).toBe(true);
+      expect(pool.getUsed()).toBe(3);
+      expect(pool.getAvailable()).toBe(0);
+      pool.release(2);
+      expect(pool.getAvailable()).toBe(2);
+    });
+    it('tryAcquire.02', () => {
+      // 親のプールの枠も同時に取得し、いずれかに空きがない場合は取得しない
+      const root = new ConcurrencyPool(3);
+      const a = new ConcurrencyPool(2, { parent: root });
+      const b = new ConcurrencyPool(2, { parent: root });
+      expect(a.getLimit()).toBe(2);
+      expect(a.tryAcquire(2)).toBe(true);
+      expect(b.getAvailable()).toBe(1);
+      expect(b.tryAcquire(2)).toBe(false);
+      expect(b.tryAcquire()).toBe(true);
+      expect(root.getUsed()).toBe(3);
+      a.release();
+      expect(root.getUsed()).toBe(2);
+      expect(a.getUsed()).toBe(1);
+    });
+  });
+  describe('onAvailable', () => {
+    it('onAvailable.01', () => {
+      // 解放された場合に登録順に通知し、空きがなくなった時点で打ち切る
+      const pool = new ConcurrencyPool(1);
+      pool.tryAcquire();
+      const notified: string[] = [];
+      const listener = (name: string) => () => {
+        notified.push(name);
+        if (!pool.tryAcquire()) {
+          pool.onAvailable(listener(name));
+        }
+      };
+      pool.onAvailable(listener('a'));
+      pool.onAvailable(listener('b'));
+      pool.release();
+      expect(notified).toEqual(['a']);
+      pool.release();
+      expect(notified).toEqual(['a', 'b']);
+      // 上限の増加時も通知する
+      const waiting = jest.fn();
+      pool.onAvailable(waiting);
+      pool.setCapacity(2);
+      expect(waiting).toHaveBeenCalledTimes(1);
+    });
+    it('onAvailable.02', () => {
+      // 親のプールの枠が解放された場合も子のプールの待機者へ通知する
+      const root = new ConcurrencyPool(1);
+      const a = new ConcurrencyPool(1, { parent: root });
+      const b = new ConcurrencyPool(1, { parent: root });
+      a.tryAcquire();
+      const waiting = jest.fn();
+      b.onAvailable(waiting);
+      expect(waiting).not.toHaveBeenCalled();
+      a.release();
+      expect(waiting).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { CircuitOpenError, DependencyGraphError, FailFastError, TaskAbortedError, TaskRetryError, TaskSkippedError, TaskTimeoutError, WorkerExitError } from '@/errors';
+
+describe('@/errors.ts', () => {
+  describe('TaskTimeoutError', () => {
+    it('TaskTimeoutError.01', () => {
+      const error = new TaskTimeoutError(100);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TaskTimeoutError');
+      expect(error.message).toBe('Task timed out after 100ms.');
+      expect(error.timeoutMs).toBe(100);
+    });
+  });
+  describe('TaskAbortedError', () => {
+    it('TaskAbortedError.01', () => {
+      const error = new TaskAbortedError('stop');
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TaskAbortedError');
+      expect(error.message).toBe('Task was aborted.');
+      expect(error.reason).toBe('stop');
+    });
+  });
+  describe('CircuitOpenError', () => {
+    it('CircuitOpenError.01', () => {
+      const error = new CircuitOpenError(300);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('CircuitOpenError');
+      expect(error.message).toBe('Circuit is open.');
+      expect(error.retryAfterMs).toBe(300);
+    });
+  });
+  describe('TaskRetryError', () => {
+    it('TaskRetryError.01', () => {
+      const errors = [new Error('1'), new Error('2')];
+      const error = new TaskRetryError(errors);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TaskRetryError');
+      expect(error.message).toBe('Task failed after 2 attempt(s).');
+      expect(error.errors).toEqual(errors);
+    });
+  });
+  describe('FailFastError', () => {
+    it('FailFastError.01', async () => {
+      const cause = new Error('failure');
+      const settled = Promise.resolve([{ status: 'rejected', reason: cause } as PromiseSettledResult<unknown>]);
+      const error = new FailFastError(cause, { fulfilled: [0], rejected: [1], running: [2, 3], notStarted: [] }, settled);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('FailFastError');
+      expect(error.message).toBe('Execution stopped after a task failed. (fulfilled: 1, rejected: 1, running: 2, not started: 0)');
+      expect(error.cause).toBe(cause);
+      expect(error.running).toEqual([2, 3]);
+      expect(await error.settled).toEqual([{ status: 'rejected', reason: cause }]);
+    });
+  });
+  describe('TaskSkippedError', () => {
+    it('TaskSkippedError.01', () => {
+      const cause = new Error('failed');
+      const error = new TaskSkippedError('build', cause);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TaskSkippedError');
+      expect(error.message).toBe('Task was skipped because its dependency "build" was rejected.');
+      expect(error.dependencyId).toBe('build');
+      expect(error.cause).toBe(cause);
+    });
+  });
+  describe('DependencyGraphError', () => {
+    it('DependencyGraphError.01', () => {
+      const error = new DependencyGraphError(['x', 3], [], []);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('DependencyGraphError');
+      expect(error.message).toBe('Invalid task dependencies. (unknown ids: x, 3)');
+      expect(new DependencyGraphError([], ['a'], ['b', 'c', 'b']).message).toBe('Invalid task dependencies. (duplicate ids: a, cycle: b -> c -> b)');
+    });
+  });
+  describe('WorkerExitError', () => {
+    it('WorkerExitError.01', () => {
+      const error = new WorkerExitError(3);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('WorkerExitError');
+      expect(error.message).toBe('Worker exited with code 3 while running a task.');
+      expect(error.exitCode).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStateStore } from '@/file-state-store';
+
+describe('@/file-state-store.ts', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'file-state-store-'));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  describe('save', () => {
+    it('save.01', async () => {
+      // JSONに変換できない場合は例外を送出せずにrejectし、他の状態は書き込む
+      const path = join(dir, 'state.jsonl');
+      const store = new FileStateStore(path);
+      store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'running' });
+      let saving!: Promise<void>;
+      expect(() => saving = store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'fulfilled', value: BigInt(10) })).not.toThrow();
+      await expect(saving).rejects.toThrow(TypeError);
+      await store.flush();
+      expect(await store.load()).toEqual([{ key: 0, descriptor: { name: 'a' }, options: {}, status: 'running' }]);
+    });
+    it('save.02', async () => {
+      // 書き込みに失敗した行は失わずに、次の書き込みで再度書き込む
+      const path = join(dir, 'nested', 'state.jsonl');
+      const store = new FileStateStore(path);
+      store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'queued' }).catch(() => undefined);
+      await expect(store.save({ key: 1, descriptor: { name: 'b' }, options: {}, status: 'queued' })).rejects.toThrow();
+      await fs.mkdir(join(dir, 'nested'));
+      await store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'running' });
+      expect(await store.load()).toEqual([
+        { key: 0, descriptor: { name: 'a' }, options: {}, status: 'running' },
+        { key: 1, descriptor: { name: 'b' }, options: {}, status: 'queued' }
+      ]);
+    });
+  });
+  describe('load', () => {
+    it('load.01', async () => {
+      // 追記した状態を key ごとの最新の状態にまとめて返す
+      const path = join(dir, 'state.jsonl');
+      const store = new FileStateStore(path);
+      expect(await store.load()).toEqual([]);
+      store.save({ key: 1, descriptor: { name: 'b', args: { id: 2 } }, options: { id: 'b' }, status: 'queued' });
+      store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'queued' });
+      store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'running' });
+      await store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'rejected', reason: new TypeError('failed') });
+      // 別のインスタンスからも読み込める
+      const records = await new FileStateStore(path).load();
+      expect(records).toEqual([
+        { key: 0, descriptor: { name: 'a' }, options: {}, status: 'rejected', reason: { name: 'TypeError', message: 'failed', stack: expect.any(String) } },
+        { key: 1, descriptor: { name: 'b', args: { id: 2 } }, options: { id: 'b' }, status: 'queued' }
+      ]);
+    });
+    it('load.02', async () => {
+      // 書き込み中に終了した場合の不完全な行は読み飛ばす
+      const path = join(dir, 'state.jsonl');
+      await fs.writeFile(path, '{"key":0,"descriptor":{"name":"a"},"options":{},"status":"fulfilled","value":1}\n{"key":1,"desc');
+      expect(await new FileStateStore(path).load()).toEqual([
+        { key: 0, descriptor: { name: 'a' }, options: {}, status: 'fulfilled', value: 1 }
+      ]);
+    });
+  });
+  describe('clear', () => {
+    it('clear.01', async () => {
+      const path = join(dir, 'state.jsonl');
+      const store = new FileStateStore(path);
+      store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'queued' });
+      await store.clear();
+      expect(await store.load()).toEqual([]);
+      // ファイルが存在しない場合も破棄できる
+      await store.clear();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { limit } from '@/limit';
+
+const sleep = (msec: number) => new Promise(resolve => setTimeout(resolve, msec));
+
+describe('@/limit.ts', () => {
+  describe('limit', () => {
+    it('limit.01', async () => {
+      // 並列実行数の上限内で関数を実行し、引数を渡して結果を返す
+      const limited = limit(2);
+      let peak = 0;
+      const fetch = async (id: number, suffix: string) => {
+        peak = Math.max(peak, limited.activeCount);
+        await sleep(10);
+        return `${id}${suffix}`;
+      };
+      const promise = Promise.all([1, 2, 3, 4].map(id => limited(fetch, id, '!')));
+      await sleep(0);
+      expect(limited.activeCount).toBe(2);
+      expect(limited.pendingCount).toBe(2);
+      expect(await promise).toEqual(['1!', '2!', '3!', '4!']);
+      expect(peak).toBe(2);
+      expect(limited.activeCount).toBe(0);
+      expect(limited.pendingCount).toBe(0);
+    });
+    it('limit.02', async () => {
+      // 同期的な関数・例外を送出する関数も実行できる
+      const limited = limit(1);
+      expect(await limited(() => 1)).toBe(1);
+      await expect(limited(() => {
+        throw new Error('failed');
+      })).rejects.toThrow('failed');
+      expect(await limited(async () => 2)).toBe(2);
+    });
+  });
+});
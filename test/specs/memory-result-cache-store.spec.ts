@@ -0,0 +1,33 @@
+import { MemoryResultCacheStore } from '@/memory-result-cache-store';
+
+describe('@/memory-result-cache-store.ts', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  describe('get', () => {
+    it('get.01', () => {
+      // 有効期限内の結果のみ返す
+      jest.useFakeTimers();
+      const store = new MemoryResultCacheStore();
+      store.set('a', { status: 'fulfilled', value: 1 }, 1000);
+      store.set('b', { status: 'rejected', reason: 2 }, 2000);
+      expect(store.get('a')).toEqual({ status: 'fulfilled', value: 1 });
+      expect(store.get('c')).toBeUndefined();
+      jest.advanceTimersByTime(1000);
+      expect(store.get('a')).toBeUndefined();
+      expect(store.get('b')).toEqual({ status: 'rejected', reason: 2 });
+    });
+  });
+  describe('delete', () => {
+    it('delete.01', () => {
+      const store = new MemoryResultCacheStore();
+      store.set('a', { status: 'fulfilled', value: 1 }, 1000);
+      store.set('b', { status: 'fulfilled', value: 2 }, 1000);
+      store.delete('a');
+      expect(store.get('a')).toBeUndefined();
+      expect(store.get('b')).toEqual({ status: 'fulfilled', value: 2 });
+      store.clear();
+      expect(store.get('b')).toBeUndefined();
+    });
+  });
+});
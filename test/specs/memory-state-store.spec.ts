@@ -0,0 +1,19 @@
+import { MemoryStateStore } from '@/memory-state-store';
+
+describe('@/memory-state-store.ts', () => {
+  describe('load', () => {
+    it('load.01', () => {
+      // 同じ key の記録は上書きし、key の昇順で返す
+      const store = new MemoryStateStore();
+      store.save({ key: 1, descriptor: { name: 'b' }, options: {}, status: 'queued' });
+      store.save({ key: 0, descriptor: { name: 'a' }, options: {}, status: 'queued' });
+      store.save({ key: 1, descriptor: { name: 'b' }, options: {}, status: 'fulfilled', value: 2 });
+      expect(store.load()).toEqual([
+        { key: 0, descriptor: { name: 'a' }, options: {}, status: 'queued' },
+        { key: 1, descriptor: { name: 'b' }, options: {}, status: 'fulfilled', value: 2 }
+      ]);
+      store.clear();
+      expect(store.load()).toEqual([]);
+    });
+  });
+});
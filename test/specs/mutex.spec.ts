@@ -0,0 +1,36 @@
+import { Mutex } from '@/mutex';
+
+const sleep = (msec: number) => new Promise(resolve => setTimeout(resolve, msec));
+
+describe('@/mutex.ts', () => {
+  describe('runExclusive', () => {
+    it('runExclusive.01', async () => {
+      // 同時に1つの関数のみ実行する
+      const mutex = new Mutex();
+      const events: string[] = [];
+      const critical = (name: string) => mutex.runExclusive(async () => {
+        events.push(`${name}:start`);
+        await sleep(10);
+        events.push(`${name}:end`);
+        return name;
+      });
+      expect(await Promise.all([critical('a'), critical('b')])).toEqual(['a', 'b']);
+      expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    });
+  });
+  describe('tryAcquire', () => {
+    it('tryAcquire.01', async () => {
+      // ロックされている場合は取得しない
+      const mutex = new Mutex();
+      expect(mutex.isLocked()).toBe(false);
+      const release = mutex.tryAcquire()!;
+      expect(mutex.isLocked()).toBe(true);
+      expect(mutex.tryAcquire()).toBeUndefined();
+      const waiting = mutex.acquire();
+      release();
+      (await waiting)();
+      await sleep(0);
+      expect(mutex.isLocked()).toBe(false);
+    });
+  });
+});
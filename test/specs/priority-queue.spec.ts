@@ -0,0 +1,47 @@
+import { PriorityQueue } from '@/priority-queue';
+
+describe('@/priority-queue.ts', () => {
+  describe('push / pop', () => {
+    it('push.01', () => {
+      // 比較関数の結果が小さい順に取り出される
+      const queue = new PriorityQueue<number>((a, b) => a - b);
+      [5, 3, 8, 1, 9, 2, 7].forEach(value => queue.push(value));
+      expect(queue.size()).toBe(7);
+      expect(queue.peek()).toBe(1);
+      const results: number[] = [];
+      while (queue.size() > 0) {
+        results.push(queue.pop()!);
+      }
+      expect(results).toEqual([1, 2, 3, 5, 7, 8, 9]);
+      expect(queue.pop()).toBeUndefined();
+    });
+  });
+  describe('update', () => {
+    it('update.01', () => {
+      // 比較に用いる値を変更した要素の位置が更新される
+      const queue = new PriorityQueue<{ value: number }>((a, b) => a.value - b.value);
+      const items = [1, 2, 3, 4, 5].map(value => ({ value }));
+      items.forEach(item => queue.push(item));
+      items[4].value = 0;
+      expect(queue.update(items[4])).toBe(true);
+      items[0].value = 10;
+      expect(queue.update(items[0])).toBe(true);
+      expect(queue.update({ value: 1 })).toBe(false);
+      const results: number[] = [];
+      while (queue.size() > 0) {
+        results.push(queue.pop()!.value);
+      }
+      expect(results).toEqual([0, 2, 3, 4, 10]);
+    });
+  });
+  describe('toArray / clear', () => {
+    it('toArray.01', () => {
+      const queue = new PriorityQueue<number>((a, b) => a - b);
+      [3, 1, 2].forEach(value => queue.push(value));
+      expect(queue.toArray().sort()).toEqual([1, 2, 3]);
+      queue.clear();
+      expect(queue.size()).toBe(0);
+      expect(queue.toArray()).toEqual([]);
+    });
+  });
+});
@@ -1,4 +1,12 @@
-import { PromiseConcurrentExecutor } from '@/promise-concurrent-executor';
+import { getEventListeners } from 'events';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MetricsErrorEvent, PromiseConcurrentExecutor, StoreErrorEvent } from '@/promise-concurrent-executor';
+import { MemoryStateStore } from '@/memory-state-store';
+import { FileStateStore } from '@/file-state-store';
+import { ConcurrencyPool } from '@/concurrency-pool';
+import { CircuitOpenError, DependencyGraphError, FailFastError, TaskAbortedError, TaskSkippedError, TaskRetryError, TaskTimeoutError } from '@/errors';
 
 type WiatFunctionType = 'resolve' | 'reject';
 
@@ -35,6 +43,71 @@ describe('@/promise-concurrent-executor.ts', () => {
       const result = executor.getConcurrency();
       expect(result).toBe(3);
     });
+    it('setConcurrency.02', async () => {
+      // 実行中の変更. 増加した場合は即座に開始し、減少した場合は実行中の処理を中断せずに減らす
+      const executor = new PromiseConcurrentExecutor(1);
+      let running = 0;
+      const runnings: number[] = [];
+      for (let i = 0; i < 12; i++) {
+        executor.add(async () => {
+          runnings.push(++running);
+          await waitFunction('resolve', 50);
+          running--;
+          return i;
+        });
+      }
+      const promise = executor.executeAll<number[]>();
+      await waitFunction('resolve', 10);
+      executor.setConcurrency(4);
+      await waitFunction('resolve', 0);
+      expect(running).toBe(4);
+      await waitFunction('resolve', 70);
+      executor.setConcurrency(2);
+      expect(running).toBe(4);
+      await waitFunction('resolve', 50);
+      expect(running).toBeLessThanOrEqual(2);
+      expect(await promise).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+      expect(Math.max(...runnings)).toBe(4);
+    });
+  });
+  describe('pause', () => {
+    it('pause.01', async () => {
+      // 停止中は実行中の処理を完了させ、新たな処理を開始しない
+      const executor = new PromiseConcurrentExecutor(2);
+      const started: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        executor.add(async () => {
+          started.push(i);
+          return waitFunction('resolve', 50);
+        });
+      }
+      const promise = executor.executeAll<number[]>();
+      executor.pause();
+      expect(executor.isPaused()).toBe(true);
+      await waitFunction('resolve', 150);
+      expect(started).toEqual([0, 1]);
+      expect(executor.getStats()).toMatchObject({ running: 0, completed: 2, queued: 3 });
+      executor.resume();
+      expect(executor.isPaused()).toBe(false);
+      await waitFunction('resolve', 0);
+      expect(started).toEqual([0, 1, 2, 3]);
+      expect(await promise).toEqual([50, 50, 50, 50, 50]);
+    });
+    it('pause.02', async () => {
+      // 実行前に停止した場合は resume() まで開始しない
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.pause();
+      let started = false;
+      executor.add(async () => {
+        started = true;
+        return 1;
+      });
+      const promise = executor.executeAll();
+      await waitFunction('resolve', 50);
+      expect(started).toBe(false);
+      executor.resume();
+      expect(await promise).toEqual([1]);
+    });
   });
   describe('size', () => {
     it('size.01', async () => {
@@ -522,6 +595,1735 @@ describe('@/promise-concurrent-executor.ts', () => {
       const results = await executor.executeAll();
       expect(results).toEqual([]);
     });
+    it('executeAll.08', async () => {
+      // 大量の関数を登録した場合でもスロットが空いた時点で即座に次の関数が実行されることの確認
+      const executor = new PromiseConcurrentExecutor(10);
+      for (let i = 0; i < 50000; i++) {
+        executor.add(async () => i);
+      }
+      const start = performance.now();
+      const results = await executor.executeAll<number[]>();
+      const end = performance.now();
+      expect(results.length).toBe(50000);
+      expect(results[49999]).toBe(49999);
+      // ポーリング方式では 50000 / 10 * 100ms = 500秒かかる
+      const executionTime = end - start;
+      console.log('executionTime', executionTime);
+      expect(executionTime).toBeLessThan(5000);
+    });
+    it('executeAll.09', async () => {
+      // 関数の開始順序が登録順(FIFO)になることの確認
+      const executor = new PromiseConcurrentExecutor(3);
+      const started: number[] = [];
+      const durations = [50, 10, 30, 20, 40, 10, 60, 10, 20, 30];
+      durations.forEach((msec, i) => {
+        executor.add(async () => {
+          started.push(i);
+          return waitFunction('resolve', msec);
+        });
+      });
+      await executor.executeAll<number[]>();
+      expect(started).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+    it('executeAll.10', async () => {
+      // intervalは関数の開始間隔の最小値として扱われることの確認
+      const executor = new PromiseConcurrentExecutor(3);
+      const startedAt: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        executor.add(async () => {
+          startedAt.push(performance.now());
+          return i;
+        });
+      }
+      await executor.executeAll<number[]>({
+        interval: 100
+      });
+      expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(95);
+      expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(95);
+    });
+  });
+  describe('failFast', () => {
+    it('failFast.01', async () => {
+      // 失敗した時点で開始前の処理を取り止め、実行中の処理は完了を待てる
+      const executor = new PromiseConcurrentExecutor(2);
+      const started: number[] = [];
+      const task = (index: number, type: WiatFunctionType, msec: number) => async () => {
+        started.push(index);
+        return waitFunction(type, msec);
+      };
+      executor.add(task(0, 'resolve', 50));
+      executor.add(task(1, 'reject', 20));
+      executor.add(task(2, 'resolve', 10));
+      executor.add(task(3, 'resolve', 10));
+      const error: FailFastError = await executor.executeAll({ failFast: true }).catch(e => e);
+      expect(error).toBeInstanceOf(FailFastError);
+      expect(error.cause).toBe(20);
+      expect(error.message).toBe('Execution stopped after a task failed. (fulfilled: 0, rejected: 1, running: 1, not started: 2)');
+      expect(error.fulfilled).toEqual([]);
+      expect(error.rejected).toEqual([1]);
+      expect(error.running).toEqual([0]);
+      expect(error.notStarted).toEqual([2, 3]);
+      const settled = await error.settled;
+      expect(settled.slice(0, 2)).toEqual([
+        { status: 'fulfilled', value: 50 },
+        { status: 'rejected', reason: 20 }
+      ]);
+      expect(settled[2]).toEqual({ status: 'rejected', reason: expect.any(TaskAbortedError) });
+      expect(started).toEqual([0, 1]);
+      // 再利用できる
+      executor.add(task(4, 'resolve', 10));
+      expect(await executor.executeAll()).toEqual([10]);
+    });
+    it('failFast.02', async () => {
+      // コンストラクタで指定する. リトライの待機中の処理も取り止める
+      const executor = new PromiseConcurrentExecutor(2, { failFast: true });
+      executor.add(async () => waitFunction('reject', 30));
+      executor.add(async () => waitFunction('reject', 5), { retry: { retries: 1, minDelayMs: 1000 } });
+      executor.add(async () => waitFunction('resolve', 10));
+      executor.add(async () => waitFunction('resolve', 100));
+      executor.add(async () => waitFunction('resolve', 10));
+      const start = Date.now();
+      const error: FailFastError = await executor.executeAll().catch(e => e);
+      expect(error.cause).toBe(30);
+      expect(error.fulfilled).toEqual([2]);
+      expect(error.rejected).toEqual([0, 1]);
+      expect(error.running).toEqual([3]);
+      expect(error.notStarted).toEqual([4]);
+      const settled = await error.settled;
+      expect(settled[1]).toEqual({ status: 'rejected', reason: expect.any(TaskAbortedError) });
+      expect(settled[3]).toEqual({ status: 'fulfilled', value: 100 });
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+    it('failFast.03', async () => {
+      // 指定しない場合は従来どおり最初のエラーでrejectし、残りの処理も実行する
+      const executor = new PromiseConcurrentExecutor(1);
+      const started: number[] = [];
+      executor.add(async () => {
+        started.push(0);
+        return waitFunction('reject', 10);
+      });
+      executor.add(async () => {
+        started.push(1);
+        return waitFunction('resolve', 10);
+      });
+      await expect(executor.executeAll()).rejects.toBe(10);
+      await executor.onIdle();
+      expect(started).toEqual([0, 1]);
+    });
+  });
+  describe('executeAny', () => {
+    it('executeAny.01', async () => {
+      // 最初に成功した結果を返し、残りの処理を中断する
+      const executor = new PromiseConcurrentExecutor(3);
+      const started: number[] = [];
+      const aborted: number[] = [];
+      const task = (index: number, type: WiatFunctionType, msec: number) => async (signal: AbortSignal) => {
+        started.push(index);
+        signal.addEventListener('abort', () => aborted.push(index));
+        return waitFunction(type, msec);
+      };
+      executor.add(task(0, 'reject', 10));
+      executor.add(task(1, 'resolve', 50));
+      executor.add(task(2, 'resolve', 200));
+      executor.add(task(3, 'resolve', 200));
+      executor.add(task(4, 'resolve', 200));
+      const result = await executor.executeAny<number>();
+      expect(result).toBe(50);
+      // 0の失敗後に3が開始され、1の成功時点で実行中の2と3が中断される. 4は開始されない
+      expect(started).toEqual([0, 1, 2, 3]);
+      expect(aborted.sort()).toEqual([2, 3]);
+      expect(executor.size()).toBe(0);
+      expect(executor.getStats()).toMatchObject({ queued: 0, running: 0 });
+    });
+    it('executeAny.02', async () => {
+      // すべて失敗した場合は AggregateError を送出する
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.add(async () => waitFunction('reject', 30));
+      executor.add(async () => waitFunction('reject', 10));
+      const error = await executor.executeAny().catch(e => e);
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.errors).toEqual([30, 10]);
+      // 関数を設定せずに呼び出し
+      await expect(executor.executeAny()).rejects.toBeInstanceOf(AggregateError);
+    });
+  });
+  describe('executeRace', () => {
+    it('executeRace.01', async () => {
+      // 最初に完了した結果を返し、残りの処理を中断する
+      const executor = new PromiseConcurrentExecutor(2);
+      let aborted = false;
+      executor.add(async signal => {
+        signal.addEventListener('abort', () => aborted = true);
+        return waitFunction('resolve', 200);
+      });
+      executor.add(async () => waitFunction('reject', 20));
+      executor.add(async () => waitFunction('resolve', 10));
+      await expect(executor.executeRace()).rejects.toBe(20);
+      expect(aborted).toBe(true);
+      // 再利用できる
+      executor.add(async () => waitFunction('resolve', 10));
+      expect(await executor.executeRace()).toBe(10);
+    });
+    it('executeRace.02', async () => {
+      // 関数を設定せずに呼び出し
+      const executor = new PromiseConcurrentExecutor(2);
+      await expect(executor.executeRace()).rejects.toThrow('There are no processes to execute.');
+    });
+    it('executeRace.03', async () => {
+      // 開始前に中断された処理で結果が確定した場合も残りの処理を中断する
+      const executor = new PromiseConcurrentExecutor(1);
+      const controller = new AbortController();
+      controller.abort('skip');
+      let aborted = false;
+      executor.add(async signal => {
+        signal.addEventListener('abort', () => aborted = true);
+        return waitFunction('resolve', 200);
+      });
+      executor.add(async () => waitFunction('resolve', 10), { signal: controller.signal });
+      const start = Date.now();
+      await expect(executor.executeRace()).rejects.toEqual(new TaskAbortedError('skip'));
+      expect(aborted).toBe(true);
+      expect(Date.now() - start).toBeLessThan(150);
+    });
+  });
+  describe('map', () => {
+    it('map.01', async () => {
+      // 配列の要素ごとに並列実行数を上限として実行し、要素の順序で結果を返却する
+      let runningCount = 0;
+      let maxRunningCount = 0;
+      const results = await PromiseConcurrentExecutor.map([50, 10, 30, 20, 40], async (msec, index) => {
+        runningCount++;
+        maxRunningCount = Math.max(maxRunningCount, runningCount);
+        await waitFunction('resolve', msec);
+        runningCount--;
+        return `${index}:${msec}`;
+      }, { concurrency: 3 });
+      expect(results).toEqual(['0:50', '1:10', '2:30', '3:20', '4:40']);
+      expect(maxRunningCount).toBe(3);
+    });
+    it('map.02', async () => {
+      // Iterable(ジェネレーター)を扱える
+      function* generate() {
+        for (let i = 0; i < 5; i++) {
+          yield i;
+        }
+      }
+      const results = await PromiseConcurrentExecutor.map(generate(), async item => item * 2, { concurrency: 2 });
+      expect(results).toEqual([0, 2, 4, 6, 8]);
+      expect(await PromiseConcurrentExecutor.map([], async item => item)).toEqual([]);
+    });
+    it('map.03', async () => {
+      // rejectされた場合は以降の要素を読み込まずにrejectする
+      let pulled = 0;
+      async function* generate() {
+        for (let i = 0; i < 100; i++) {
+          pulled++;
+          yield i;
+        }
+      }
+      await expect(PromiseConcurrentExecutor.map(generate(), async item => {
+        if (item === 3) {
+          throw new Error('error 3');
+        }
+        return waitFunction('resolve', 10);
+      }, { concurrency: 2 })).rejects.toThrow('error 3');
+      expect(pulled).toBeLessThan(10);
+    });
+    it('map.04', async () => {
+      // 要素の読み込みでエラーが発生した場合は、それまでの結果を返却した後にエラーを送出する
+      async function* generate() {
+        yield 1;
+        yield 2;
+        throw new Error('source error');
+      }
+      const results: number[] = [];
+      await expect((async () => {
+        for await (const result of PromiseConcurrentExecutor.mapIterable(generate(), async item => item, { concurrency: 2 })) {
+          results.push(result);
+        }
+      })()).rejects.toThrow('source error');
+      expect(results).toEqual([1, 2]);
+    });
+  });
+  describe('mapIterable', () => {
+    it('mapIterable.01', async () => {
+      // 読み込み済みで未返却の要素は concurrency + readAhead 件を超えない
+      let pulled = 0;
+      let maxBuffered = 0;
+      let yielded = 0;
+      async function* generate() {
+        for (let i = 0; i < 20; i++) {
+          pulled++;
+          maxBuffered = Math.max(maxBuffered, pulled - yielded);
+          yield i;
+        }
+      }
+      const results: number[] = [];
+      for await (const result of PromiseConcurrentExecutor.mapIterable(generate(), async item => {
+        await waitFunction('resolve', item % 3 === 0 ? 30 : 5);
+        return item;
+      }, { concurrency: 2, readAhead: 1 })) {
+        yielded++;
+        results.push(result);
+        // 利用側の処理が遅い場合でも読み込みが先行しすぎないことの確認
+        await waitFunction('resolve', 10);
+      }
+      expect(results).toEqual([...Array(20)].map((_, i) => i));
+      expect(maxBuffered).toBeLessThanOrEqual(3);
+    });
+    it('mapIterable.02', async () => {
+      // 途中で処理を抜けた場合は要素の読み込みを終了し、実行中の関数を中断する
+      let pulled = 0;
+      let closed = false;
+      const signals: AbortSignal[] = [];
+      async function* generate() {
+        try {
+          while (true) {
+            yield pulled++;
+          }
+        } finally {
+          closed = true;
+        }
+      }
+      for await (const result of PromiseConcurrentExecutor.mapIterable(generate(), async (item, _, signal) => {
+        signals.push(signal);
+        await waitFunction('resolve', item === 0 ? 10 : 100);
+        return item;
+      }, { concurrency: 2 })) {
+        expect(result).toBe(0);
+        break;
+      }
+      expect(closed).toBe(true);
+      expect(pulled).toBeLessThanOrEqual(4);
+      expect(signals[1].aborted).toBe(true);
+    });
+    it('mapIterable.03', async () => {
+      // 文字列を Iterable として扱う
+      const results: string[] = [];
+      for await (const result of PromiseConcurrentExecutor.mapIterable('abc', async char => char.toUpperCase(), { concurrency: 2 })) {
+        results.push(result);
+      }
+      expect(results).toEqual(['A', 'B', 'C']);
+    });
+    it('mapIterable.04', async () => {
+      // 要素の読み込み中に処理を抜けた場合は、その後に読み込まれた要素の関数を開始しない
+      let pulled = 0;
+      const mapped: number[] = [];
+      const source: AsyncIterable<number> = {
+        [Symbol.asyncIterator]: () => ({
+          next: async () => {
+            const value = pulled++;
+            await waitFunction('resolve', value === 0 ? 0 : 50);
+            return { done: false, value };
+          },
+          return: async () => ({ done: true, value: undefined })
+        })
+      };
+      for await (const result of PromiseConcurrentExecutor.mapIterable(source, async item => {
+        mapped.push(item);
+        return item;
+      }, { concurrency: 2 })) {
+        expect(result).toBe(0);
+        break;
+      }
+      await waitFunction('resolve', 100);
+      expect(mapped).toEqual([0]);
+    });
+  });
+  describe('executeStream', () => {
+    it('executeStream.01', async () => {
+      // 完了した順に登録順のindexを付与して結果が返却される
+      const executor = new PromiseConcurrentExecutor(3);
+      executor.add(async () => waitFunction('resolve', 300));
+      executor.add(async () => waitFunction('reject', 100));
+      executor.add(async () => waitFunction('resolve', 200));
+      const results = [];
+      for await (const result of executor.executeStream<number>()) {
+        results.push(result);
+        // 結果を受け取った時点ではまだ他の処理が実行中
+        if (results.length === 1) {
+          expect(result).toEqual({ status: 'rejected', reason: 100, index: 1 });
+        }
+      }
+      expect(results).toEqual([
+        { status: 'rejected', reason: 100, index: 1 },
+        { status: 'fulfilled', value: 200, index: 2 },
+        { status: 'fulfilled', value: 300, index: 0 }
+      ]);
+      expect(executor.size()).toBe(0);
+    });
+    it('executeStream.02', async () => {
+      // 途中で処理を抜けた場合は開始前の処理を取り止め、再利用できる状態に戻る
+      const executor = new PromiseConcurrentExecutor(2);
+      const started: number[] = [];
+      for (let i = 0; i < 6; i++) {
+        executor.add(async () => {
+          started.push(i);
+          return waitFunction('resolve', 100 + i * 10);
+        });
+      }
+      for await (const result of executor.executeStream<number>()) {
+        expect(result).toEqual({ status: 'fulfilled', value: 100, index: 0 });
+        break;
+      }
+      expect(executor.size()).toBe(0);
+      // 実行中だった処理の完了を待機
+      await waitFunction('resolve', 300);
+      expect(started).toEqual([0, 1, 2]);
+      executor.add(async () => waitFunction('resolve', 10));
+      expect(await executor.executeAll()).toEqual([10]);
+    });
+    it('executeStream.03', async () => {
+      // 関数を設定せずに呼び出し
+      const executor = new PromiseConcurrentExecutor(2);
+      const results = [];
+      for await (const result of executor.executeStream()) {
+        results.push(result);
+      }
+      expect(results).toEqual([]);
+    });
+  });
+  describe('priority', () => {
+    it('priority.01', async () => {
+      // 優先度の高い順に実行され、同じ優先度の場合は登録順に実行される
+      const executor = new PromiseConcurrentExecutor(1);
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        return waitFunction('resolve', 10);
+      };
+      executor.add(task('low1'));
+      executor.add(task('low2'));
+      executor.add(task('high1'), { priority: 10 });
+      executor.add(task('middle'), { priority: 5 });
+      executor.add(task('high2'), { priority: 10 });
+      executor.addAll([task('background1'), task('background2')], -1);
+      const results = await executor.executeAll<number[]>();
+      expect(results.length).toBe(7);
+      expect(started).toEqual(['high1', 'high2', 'middle', 'low1', 'low2', 'background1', 'background2']);
+    });
+    it('priority.02', async () => {
+      // 実行待ちの関数の優先度を変更する
+      const executor = new PromiseConcurrentExecutor(1);
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        return waitFunction('resolve', 100);
+      };
+      executor.add(task('a'), { id: 'a' });
+      executor.add(task('b'), { id: 'b' });
+      executor.add(task('c'), { id: 'c' });
+      // 実行前の変更
+      expect(executor.setPriority('b', 1)).toBe(true);
+      setTimeout(() => {
+        // 実行中の変更. 'b'は実行中のため対象外
+        expect(executor.setPriority('b', -1)).toBe(false);
+        expect(executor.setPriority('c', 10)).toBe(true);
+        expect(executor.setPriority('unknown', 10)).toBe(false);
+      }, 50);
+      await executor.executeAll<number[]>();
+      expect(started).toEqual(['b', 'c', 'a']);
+    });
+  });
+  describe('perKeyConcurrency', () => {
+    it('perKeyConcurrency.01', async () => {
+      // キーの上限に達している処理は、後続の別のキーの処理の開始を妨げない
+      const executor = new PromiseConcurrentExecutor(3, { perKeyConcurrency: 1 });
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        return waitFunction('resolve', 100);
+      };
+      executor.add(task('a1'), { key: 'a' });
+      executor.add(task('a2'), { key: 'a' });
+      executor.add(task('a3'), { key: 'a' });
+      executor.add(task('b1'), { key: 'b' });
+      executor.add(task('none1'));
+      executor.add(task('none2'));
+      const promise = executor.executeAll<number[]>();
+      await waitFunction('resolve', 50);
+      expect(started).toEqual(['a1', 'b1', 'none1']);
+      await promise;
+      expect(started).toEqual(['a1', 'b1', 'none1', 'a2', 'none2', 'a3']);
+    });
+    it('perKeyConcurrency.02', async () => {
+      // キーごとに上限を変える. 全体の上限も併せて適用される
+      const executor = new PromiseConcurrentExecutor(4, {
+        perKeyConcurrency: key => key === 'large' ? 3 : 1
+      });
+      const running: Record<string, number> = {};
+      const peaks: Record<string, number> = {};
+      let total = 0;
+      let peakTotal = 0;
+      const keys = ['large', 'large', 'large', 'large', 'large', 'small1', 'small1', 'small2', 'small2'];
+      for (const key of keys) {
+        executor.add(async () => {
+          running[key] = (running[key] ?? 0) + 1;
+          peaks[key] = Math.max(peaks[key] ?? 0, running[key]);
+          peakTotal = Math.max(peakTotal, ++total);
+          await waitFunction('resolve', 20);
+          running[key]--;
+          total--;
+        }, { key });
+      }
+      await executor.executeAll();
+      expect(peaks).toEqual({ large: 3, small1: 1, small2: 1 });
+      expect(peakTotal).toBe(4);
+    });
+    it('perKeyConcurrency.03', async () => {
+      // キーの上限により開始を待っている処理も優先度の変更・中断の対象となる
+      const executor = new PromiseConcurrentExecutor(2, { perKeyConcurrency: 1 });
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        return waitFunction('resolve', 100);
+      };
+      executor.add(task('a1'), { key: 'a' });
+      executor.add(task('a2'), { key: 'a' });
+      executor.add(task('a3'), { key: 'a', id: 'a3' });
+      executor.add(task('a4'), { key: 'a' });
+      const promise = executor.executeAllSettled();
+      await waitFunction('resolve', 10);
+      expect(executor.setPriority('a3', 1)).toBe(true);
+      await waitFunction('resolve', 140);
+      expect(started).toEqual(['a1', 'a3']);
+      executor.abort('stop');
+      const results = await promise;
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'rejected', 'rejected']);
+      expect(started).toEqual(['a1', 'a3']);
+      expect(executor.getStats()).toMatchObject({ queued: 0, running: 0 });
+    });
+  });
+  describe('weight', () => {
+    it('weight.01', async () => {
+      // 実行中の処理の weight の合計が並列実行数を超えない
+      const executor = new PromiseConcurrentExecutor(4);
+      let used = 0;
+      let peak = 0;
+      [3, 1, 1, 2, 4, 1, 1].forEach(weight => {
+        executor.add(async () => {
+          used += weight;
+          peak = Math.max(peak, used);
+          await waitFunction('resolve', 20);
+          used -= weight;
+          return weight;
+        }, { weight });
+      });
+      expect(await executor.executeAll()).toEqual([3, 1, 1, 2, 4, 1, 1]);
+      expect(peak).toBe(4);
+    });
+    it('weight.02', async () => {
+      // weight の大きい処理は後続の処理に追い越されない
+      const executor = new PromiseConcurrentExecutor(2);
+      const started: string[] = [];
+      const task = (name: string, msec: number) => async () => {
+        started.push(name);
+        return waitFunction('resolve', msec);
+      };
+      executor.add(task('light1', 50));
+      executor.add(task('light2', 100));
+      executor.add(task('heavy', 50), { weight: 2 });
+      executor.add(task('light3', 50));
+      executor.add(task('light4', 50));
+      const promise = executor.executeAll();
+      await waitFunction('resolve', 75);
+      // light1 の完了時点では heavy の空きが足りないため light3 も開始しない
+      expect(started).toEqual(['light1', 'light2']);
+      await promise;
+      expect(started).toEqual(['light1', 'light2', 'heavy', 'light3', 'light4']);
+    });
+    it('weight.03', async () => {
+      // 並列実行数を超える weight は指定不可. 並列実行数の減少により開始できなくなった処理は、並列実行数が戻るまで先頭で待機する
+      const executor = new PromiseConcurrentExecutor(3);
+      expect(() => executor.add(async () => 1, { weight: 4 })).toThrow('Task weight 4 exceeds the concurrency 3.');
+      expect(() => executor.add(async () => 1, { weight: 0 })).toThrow('weight must be a positive number.');
+      expect(executor.size()).toBe(0);
+      executor.add(async () => waitFunction('resolve', 50), { weight: 2 });
+      executor.add(async () => waitFunction('resolve', 50), { weight: 3 });
+      executor.add(async () => waitFunction('resolve', 50));
+      const promise = executor.executeAllSettled();
+      executor.setConcurrency(2);
+      await waitFunction('resolve', 70);
+      // weight 3 の処理を追い越して後続の処理を開始しない
+      expect(executor.getStats()).toMatchObject({ running: 0, queued: 2, failed: 0 });
+      executor.setConcurrency(4);
+      expect(await promise).toEqual([...Array(3)].map(() => ({ status: 'fulfilled', value: 50 })));
+      expect(() => executor.setConcurrency(0)).toThrow('concurrency must be at least 1.');
+      expect(executor.getConcurrency()).toBe(4);
+    });
+  });
+  describe('adaptive', () => {
+    it('adaptive.01', async () => {
+      // 実行待ちの処理がある間は並列実行数を増加し、タイムアウトが発生した場合は減少する
+      const executor = new PromiseConcurrentExecutor(2, { adaptive: { min: 1, max: 4, windowSize: 2 } });
+      const changes: number[] = [];
+      executor.on('concurrencyChange', ({ concurrency }) => changes.push(concurrency));
+      let running = 0;
+      let peak = 0;
+      for (let i = 0; i < 12; i++) {
+        executor.add(async () => {
+          peak = Math.max(peak, ++running);
+          await waitFunction('resolve', 20);
+          running--;
+        });
+      }
+      await executor.executeAll();
+      expect(changes).toEqual([3, 4]);
+      expect(peak).toBe(4);
+      executor.add(async () => waitFunction('resolve', 100), { timeoutMs: 10 });
+      await executor.executeAllSettled();
+      expect(executor.getConcurrency()).toBe(2);
+      expect(changes).toEqual([3, 4, 2]);
+    });
+    it('adaptive.02', async () => {
+      // isOverload で過負荷を示すエラーを指定する
+      const executor = new PromiseConcurrentExecutor(8, {
+        adaptive: { min: 1, max: 8, isOverload: error => error === 429 }
+      });
+      executor.add(async () => waitFunction('reject', 10));
+      await executor.executeAllSettled();
+      expect(executor.getConcurrency()).toBe(8);
+      executor.add(async () => {
+        throw 429;
+      });
+      await executor.executeAllSettled();
+      expect(executor.getConcurrency()).toBe(4);
+      // setConcurrency() は min〜max の範囲に丸める
+      executor.setConcurrency(20);
+      expect(executor.getConcurrency()).toBe(8);
+    });
+    it('adaptive.03', async () => {
+      // 並列実行数が weight を下回った場合も、max 以下であれば単独で実行する
+      const executor = new PromiseConcurrentExecutor(1, { adaptive: { min: 1, max: 4 } });
+      expect(() => executor.add(async () => 1, { weight: 5 })).toThrow('Task weight 5 exceeds the concurrency 4.');
+      let running = 0;
+      let peak = 0;
+      const task = async () => {
+        peak = Math.max(peak, ++running);
+        await waitFunction('resolve', 10);
+        running--;
+      };
+      executor.add(task, { weight: 3 });
+      executor.add(task);
+      executor.add(task, { weight: 2 });
+      await executor.executeAll();
+      expect(peak).toBe(1);
+    });
+  });
+  describe('circuitBreaker', () => {
+    it('circuitBreaker.01', async () => {
+      // open へ移行した時点で実行待ちの処理を開始せずにrejectする
+      const executor = new PromiseConcurrentExecutor(2, {
+        circuitBreaker: { failureThreshold: 0.5, minimumRequests: 2, cooldownMs: 1000 }
+      });
+      const states: string[] = [];
+      executor.on('circuitStateChange', ({ previous, state }) => states.push(`${previous}->${state}`));
+      let calls = 0;
+      for (let i = 0; i < 100; i++) {
+        executor.add(async () => {
+          calls++;
+          return waitFunction('reject', 50);
+        });
+      }
+      const start = Date.now();
+      const results = await executor.executeAllSettled();
+      expect(Date.now() - start).toBeLessThan(200);
+      // 1件目の失敗時点では minimumRequests に達していないため、空いたスロットで3件目が開始される
+      expect(calls).toBe(3);
+      expect(results.slice(0, 3)).toEqual([...Array(3)].map(() => ({ status: 'rejected', reason: 50 })));
+      expect(results[3]).toEqual({ status: 'rejected', reason: expect.any(CircuitOpenError) });
+      expect((results[99] as PromiseRejectedResult).reason.retryAfterMs).toBeGreaterThan(900);
+      expect(executor.getCircuitState()).toBe('open');
+      expect(states).toEqual(['closed->open']);
+    });
+    it('circuitBreaker.02', async () => {
+      // hold: half-open での試行が成功するまで待機し、成功後に残りの処理を開始する
+      const executor = new PromiseConcurrentExecutor(2, {
+        circuitBreaker: { failureThreshold: 1, minimumRequests: 1, cooldownMs: 100, whenOpen: 'hold' }
+      });
+      const states: string[] = [];
+      executor.on('circuitStateChange', ({ state }) => states.push(state));
+      let failing = true;
+      const started: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        executor.add(async () => {
+          started.push(Date.now());
+          if (failing) {
+            failing = false;
+            return waitFunction('reject', 10);
+          }
+          return waitFunction('resolve', 10);
+        });
+      }
+      const start = Date.now();
+      const results = await executor.executeAllSettled();
+      expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled', 'fulfilled', 'fulfilled']);
+      expect(states).toEqual(['open', 'half-open', 'closed']);
+      // 1件目と同時に開始した2件目以外は cooldownMs の経過後に開始する
+      expect(started.slice(2).every(at => at - start >= 100)).toBe(true);
+      expect(executor.getCircuitState()).toBe('closed');
+    });
+    it('circuitBreaker.03', async () => {
+      // isFailure で失敗として数えるエラーを指定する
+      const executor = new PromiseConcurrentExecutor(1, {
+        circuitBreaker: { failureThreshold: 0.5, minimumRequests: 1, isFailure: error => error !== 404 }
+      });
+      executor.add(async () => waitFunction('reject', 404));
+      executor.add(async () => 1);
+      expect(await executor.executeAllSettled()).toEqual([{ status: 'rejected', reason: 404 }, { status: 'fulfilled', value: 1 }]);
+      expect(executor.getCircuitState()).toBe('closed');
+      expect(new PromiseConcurrentExecutor(1).getCircuitState()).toBeUndefined();
+    });
+    it('circuitBreaker.04', async () => {
+      // open へ移行する前に開始した処理の成功は half-open の試行として数えない
+      const executor = new PromiseConcurrentExecutor(2, {
+        circuitBreaker: { failureThreshold: 0.5, minimumRequests: 1, cooldownMs: 100 }
+      });
+      executor.add(async () => waitFunction('resolve', 300));
+      executor.add(async () => waitFunction('reject', 10));
+      const promise = executor.executeAllSettled();
+      await waitFunction('resolve', 150);
+      expect(executor.getCircuitState()).toBe('half-open');
+      expect(await promise).toEqual([{ status: 'fulfilled', value: 300 }, { status: 'rejected', reason: 10 }]);
+      expect(executor.getCircuitState()).toBe('half-open');
+    });
+    it('circuitBreaker.05', async () => {
+      // リトライの開始前に CircuitOpenError となった場合も、それまでの試行のエラーを保持する
+      const executor = new PromiseConcurrentExecutor(1, {
+        circuitBreaker: { failureThreshold: 1, minimumRequests: 1, cooldownMs: 1000 }
+      });
+      executor.add(async () => waitFunction('reject', 10), { retry: { retries: 2, minDelayMs: 10 } });
+      const [result] = await executor.executeAllSettled();
+      const reason = (result as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(TaskRetryError);
+      expect(reason.errors).toEqual([10, expect.any(CircuitOpenError)]);
+    });
+  });
+  describe('pool', () => {
+    it('pool.01', async () => {
+      // 共有プールの上限を複数の実行者の実行中の処理の合計に適用する
+      const pool = new ConcurrencyPool(3);
+      let running = 0;
+      let peak = 0;
+      const task = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await waitFunction('resolve', 20);
+        running--;
+        return pool.getUsed();
+      };
+      const executors = [new PromiseConcurrentExecutor(2, { pool }), new PromiseConcurrentExecutor(2, { pool })];
+      for (const executor of executors) {
+        executor.addAll([task, task, task, task]);
+      }
+      const results = await Promise.all(executors.map(executor => executor.executeAll()));
+      expect(results.flat()).toHaveLength(8);
+      expect(peak).toBe(3);
+      expect(pool.getUsed()).toBe(0);
+    });
+    it('pool.02', async () => {
+      // 枠の解放時は空きを待っている他の実行者へ先に割り当てる
+      const pool = new ConcurrencyPool(1);
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        return waitFunction('resolve', 10);
+      };
+      const a = new PromiseConcurrentExecutor(1, { pool });
+      const b = new PromiseConcurrentExecutor(1, { pool });
+      a.addAll([task('a1'), task('a2'), task('a3')]);
+      b.addAll([task('b1'), task('b2')]);
+      await Promise.all([a.executeAll(), b.executeAll()]);
+      expect(started).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+    });
+    it('pool.03', async () => {
+      // 入れ子のプールは親のプールの上限も適用し、weight の分の枠を取得する
+      const root = new ConcurrencyPool(4);
+      const service = new ConcurrencyPool(3, { parent: root });
+      const other = new PromiseConcurrentExecutor(4, { pool: root });
+      const executor = new PromiseConcurrentExecutor(3, { pool: service });
+      expect(() => executor.add(async () => 1, { weight: 4 })).toThrow('Task weight 4 exceeds the concurrency 3.');
+      expect(() => other.add(async () => 1, { weight: 5 })).toThrow('Task weight 5 exceeds the concurrency 4.');
+      let peak = 0;
+      const task = async () => {
+        peak = Math.max(peak, root.getUsed());
+        return waitFunction('resolve', 20);
+      };
+      other.addAll([task, task]);
+      executor.add(task, { weight: 3 });
+      executor.add(task);
+      await Promise.all([other.executeAll(), executor.executeAll()]);
+      expect(peak).toBeLessThanOrEqual(4);
+      expect(service.getUsed()).toBe(0);
+      expect(root.getUsed()).toBe(0);
+      // プールの上限を超える weight は指定不可
+      const small = new ConcurrencyPool(1, { parent: root });
+      expect(() => new PromiseConcurrentExecutor(2, { pool: small }).add(async () => 1, { weight: 2 })).toThrow('Task weight 2 exceeds the pool capacity 1.');
+    });
+    it('pool.04', async () => {
+      // プールの上限が weight を下回った処理はrejectせず、上限が戻るまで待機する
+      const pool = new ConcurrencyPool(3);
+      const executor = new PromiseConcurrentExecutor(3, { pool });
+      executor.add(async () => waitFunction('resolve', 20));
+      executor.add(async () => waitFunction('resolve', 20), { weight: 3 });
+      const promise = executor.executeAllSettled();
+      pool.setCapacity(2);
+      await waitFunction('resolve', 70);
+      expect(executor.getStats()).toMatchObject({ running: 0, queued: 1, failed: 0 });
+      pool.setCapacity(3);
+      expect(await promise).toEqual([{ status: 'fulfilled', value: 20 }, { status: 'fulfilled', value: 20 }]);
+      expect(pool.getUsed()).toBe(0);
+    });
+  });
+  describe('dependsOn', () => {
+    it('dependsOn.01', async () => {
+      // 依存する処理がすべて成功してから開始し、その結果を受け取る
+      const executor = new PromiseConcurrentExecutor(2);
+      const events: string[] = [];
+      const task = (name: string, msec: number) => async (_: AbortSignal, dependencies: Record<string, any>) => {
+        events.push(`${name}:start`);
+        await waitFunction('resolve', msec);
+        events.push(`${name}:end`);
+        return { name, dependencies };
+      };
+      executor.add(task('a', 100), { id: 'a' });
+      executor.add(task('b', 10), { id: 'b' });
+      executor.add(task('c', 10), { id: 'c', dependsOn: ['b'] });
+      executor.add(task('d', 10), { id: 'd', dependsOn: ['a', 'c'] });
+      const results = await executor.executeAll();
+      // c は a の完了を待たずに開始する
+      expect(events).toEqual(['a:start', 'b:start', 'b:end', 'c:start', 'c:end', 'a:end', 'd:start', 'd:end']);
+      expect(results[2].dependencies).toEqual({ b: { name: 'b', dependencies: {} } });
+      expect(Object.keys(results[3].dependencies)).toEqual(['a', 'c']);
+      expect(results[3].dependencies.a.name).toBe('a');
+    });
+    it('dependsOn.02', async () => {
+      // 依存する処理が失敗した場合は開始せずに取り止める. idを省略した処理は登録順で指定する
+      const executor = new PromiseConcurrentExecutor(2);
+      let started = 0;
+      const failed = executor.add(async () => waitFunction('reject', 10));
+      const skipped = executor.add(async () => started++, { id: 'skipped', dependsOn: [failed.id] });
+      const nested = executor.add(async () => started++, { dependsOn: ['skipped'] });
+      const independent = executor.add(async () => waitFunction('resolve', 30));
+      const results = await executor.executeAllSettled();
+      expect(started).toBe(0);
+      expect(failed.status).toBe('rejected');
+      expect(skipped.status).toBe('skipped');
+      expect(nested.status).toBe('skipped');
+      expect(independent.status).toBe('fulfilled');
+      const reason = (results[1] as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(TaskSkippedError);
+      expect(reason.dependencyId).toBe(0);
+      expect(reason.cause).toBe(10);
+      expect((results[2] as PromiseRejectedResult).reason.cause).toBe(reason);
+    });
+    it('dependsOn.03', async () => {
+      // 依存関係が不正な場合はいずれの処理も開始せずにエラーとする
+      const executor = new PromiseConcurrentExecutor(2);
+      let started = 0;
+      const handle = executor.add(async () => started++, { id: 'a', dependsOn: ['c'] });
+      executor.add(async () => started++, { id: 'b', dependsOn: ['a'] });
+      executor.add(async () => started++, { id: 'c', dependsOn: ['b'] });
+      executor.add(async () => started++, { dependsOn: ['x'] });
+      let error: DependencyGraphError = await executor.executeAll().catch(e => e);
+      expect(error).toBeInstanceOf(DependencyGraphError);
+      expect(error.unknownIds).toEqual(['x']);
+      expect(error.cycle).toEqual([]);
+      await expect(handle.result).rejects.toBe(error);
+      expect(executor.size()).toBe(0);
+      // 循環
+      executor.add(async () => started++, { id: 'a', dependsOn: ['c'] });
+      executor.add(async () => started++, { id: 'b', dependsOn: ['a'] });
+      executor.add(async () => started++, { id: 'c', dependsOn: ['b'] });
+      error = await executor.executeAllSettled().catch(e => e);
+      expect(error.cycle).toEqual(['a', 'c', 'b', 'a']);
+      // 特定できない識別子
+      executor.add(async () => started++, { id: 'a' });
+      executor.add(async () => started++, { id: 'a' });
+      executor.add(async () => started++, { dependsOn: ['a'] });
+      expect(() => executor.start()).toThrow(DependencyGraphError);
+      expect(started).toBe(0);
+      // 初期化されているため続けて実行できる
+      executor.add(async () => 1, { id: 'a' });
+      expect(await executor.executeAll()).toEqual([1]);
+    });
+    it('dependsOn.04', async () => {
+      // start() 前に登録した処理は依存関係を解決し、常駐中は指定不可
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.add(async () => 1, { id: 'a' });
+      const b = executor.add(async (_, dependencies) => dependencies.a + 1, { dependsOn: ['a'] });
+      executor.start();
+      expect(() => executor.add(async () => 1, { dependsOn: ['a'] })).toThrow('dependsOn cannot be used while started.');
+      expect(await b.result).toBe(2);
+      await executor.stop();
+    });
+  });
+  describe('stateStore', () => {
+    it('stateStore.01', async () => {
+      // TaskDescriptor で追加した処理は registry の関数を実行し、状態を記録する
+      const store = new MemoryStateStore();
+      const saved: string[] = [];
+      const save = store.save.bind(store);
+      store.save = record => {
+        saved.push(`${record.key}:${record.status}`);
+        save(record);
+      };
+      const executor = new PromiseConcurrentExecutor(1, {
+        registry: {
+          double: async (args: { value: number }) => args.value * 2,
+          fail: async () => waitFunction('reject', 10)
+        },
+        stateStore: store
+      });
+      executor.add({ name: 'double', args: { value: 2 } }, { id: 'a' });
+      executor.add(async () => 'closure');
+      executor.add({ name: 'fail' });
+      expect(() => executor.add({ name: 'unknown' })).toThrow('Task "unknown" is not registered.');
+      const results = await executor.executeAllSettled();
+      expect(results).toEqual([
+        { status: 'fulfilled', value: 4 },
+        { status: 'fulfilled', value: 'closure' },
+        { status: 'rejected', reason: 10 }
+      ]);
+      // 関数で追加した処理は記録しない
+      expect(saved).toEqual(['0:queued', '1:queued', '0:running', '0:fulfilled', '1:running', '1:rejected']);
+      expect(store.load()).toEqual([
+        { key: 0, descriptor: { name: 'double', args: { value: 2 } }, options: { id: 'a' }, status: 'fulfilled', value: 4 },
+        { key: 1, descriptor: { name: 'fail' }, options: {}, status: 'rejected', reason: 10 }
+      ]);
+    });
+    it('stateStore.02', async () => {
+      // 保存先で例外が発生しても実行に影響させず、storeError イベントで通知する
+      const dir = await fs.mkdtemp(join(tmpdir(), 'state-store-'));
+      try {
+        const store = new FileStateStore(join(dir, 'state.jsonl'));
+        const executor = new PromiseConcurrentExecutor(1, {
+          registry: { big: async () => BigInt(10) },
+          stateStore: store
+        });
+        const errors: StoreErrorEvent[] = [];
+        executor.on('storeError', event => errors.push(event));
+        executor.add({ name: 'big' });
+        expect(await executor.executeAll()).toEqual([BigInt(10)]);
+        await store.flush();
+        expect(errors).toEqual([{ store: 'stateStore', operation: 'save', key: 0, error: expect.any(TypeError) }]);
+        // JSONに変換できなかった結果のみ記録されない
+        expect(await store.load()).toEqual([{ key: 0, descriptor: { name: 'big' }, options: {}, status: 'running' }]);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+  describe('resumeFrom', () => {
+    it('resumeFrom.01', async () => {
+      // 完了済みの処理は記録した結果を返し、未完了の処理のみ再度実行する
+      const store = new MemoryStateStore();
+      store.save({ key: 0, descriptor: { name: 'echo', args: 0 }, options: {}, status: 'fulfilled', value: 'done' });
+      store.save({ key: 1, descriptor: { name: 'echo', args: 1 }, options: {}, status: 'rejected', reason: 'failed' });
+      store.save({ key: 2, descriptor: { name: 'echo', args: 2 }, options: { id: 'c' }, status: 'running' });
+      store.save({ key: 3, descriptor: { name: 'echo', args: 3 }, options: { dependsOn: ['c'] }, status: 'queued' });
+      const calls: number[] = [];
+      const executor = new PromiseConcurrentExecutor(2, {
+        registry: {
+          echo: async (args: number, _, dependencies) => {
+            calls.push(args);
+            return { args, dependencies };
+          }
+        }
+      });
+      const handles = await executor.resumeFrom(store);
+      expect(handles.map(handle => handle.id)).toEqual([0, 1, 'c', 3]);
+      // 再開後に追加した処理は続きの key で記録する
+      executor.add({ name: 'echo', args: 4 });
+      const results = await executor.executeAllSettled();
+      // 依存先の完了を待つ間に後続の処理を開始する
+      expect(calls).toEqual([2, 4, 3]);
+      expect(results.slice(0, 2)).toEqual([{ status: 'fulfilled', value: 'done' }, { status: 'rejected', reason: 'failed' }]);
+      expect(results[3]).toEqual({ status: 'fulfilled', value: { args: 3, dependencies: { c: { args: 2, dependencies: {} } } } });
+      expect(store.load().map(record => `${record.key}:${record.status}`)).toEqual(['0:fulfilled', '1:rejected', '2:fulfilled', '3:fulfilled', '4:fulfilled']);
+    });
+    it('resumeFrom.02', async () => {
+      // 中断された処理は完了として記録せず、再開時に実行する
+      const store = new MemoryStateStore();
+      const registry = {
+        wait: async (msec: number, signal: AbortSignal) => {
+          await waitFunction('resolve', msec);
+          signal.throwIfAborted();
+          return msec;
+        }
+      };
+      const first = new PromiseConcurrentExecutor(1, { registry, stateStore: store });
+      first.addAll([{ name: 'wait', args: 10 }, { name: 'wait', args: 50 }, { name: 'wait', args: 20 }]);
+      setTimeout(() => first.abort('deploy'), 30);
+      await first.executeAllSettled();
+      expect(store.load().map(record => record.status)).toEqual(['fulfilled', 'running', 'queued']);
+      const second = new PromiseConcurrentExecutor(1, { registry });
+      second.add({ name: 'wait', args: 1 });
+      await expect(second.resumeFrom(store)).rejects.toThrow('resumeFrom() must be called before adding any processes.');
+      const resumed = new PromiseConcurrentExecutor(1, { registry });
+      await resumed.resumeFrom(store);
+      expect(await resumed.executeAll()).toEqual([10, 50, 20]);
+      expect(store.load().map(record => record.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled']);
+    });
+  });
+  describe('dedupeKey', () => {
+    it('dedupeKey.01', async () => {
+      // 同じdedupeKeyの処理は関数を1回だけ実行し、結果を共有する
+      const executor = new PromiseConcurrentExecutor(2);
+      const calls: string[] = [];
+      const fetchEntity = (id: string) => async () => {
+        calls.push(id);
+        await waitFunction('resolve', 50);
+        return `entity-${id}`;
+      };
+      executor.add(fetchEntity('a'), { dedupeKey: 'a' });
+      executor.add(fetchEntity('b'), { dedupeKey: 'b' });
+      executor.add(fetchEntity('a'), { dedupeKey: 'a' });
+      executor.add(fetchEntity('a'), { dedupeKey: 'a' });
+      executor.add(fetchEntity('c'));
+      const start = Date.now();
+      const results = await executor.executeAll();
+      expect(results).toEqual(['entity-a', 'entity-b', 'entity-a', 'entity-a', 'entity-c']);
+      expect(calls).toEqual(['a', 'b', 'c']);
+      // 結果を共有する処理はスロットを占有しない
+      expect(Date.now() - start).toBeLessThan(150);
+      expect(executor.getStats()).toMatchObject({ completed: 5, deduplicated: 2, cacheHits: 0 });
+    });
+    it('dedupeKey.02', async () => {
+      // 失敗した結果も共有し、完了後に追加した処理は再度実行する
+      const executor = new PromiseConcurrentExecutor(2);
+      let calls = 0;
+      const task = async () => {
+        calls++;
+        return waitFunction('reject', 20);
+      };
+      const first = executor.add(task, { dedupeKey: 'x' });
+      const second = executor.add(task, { dedupeKey: 'x' });
+      const results = await executor.executeAllSettled();
+      expect(results).toEqual([{ status: 'rejected', reason: 20 }, { status: 'rejected', reason: 20 }]);
+      expect(first.status).toBe('rejected');
+      expect(second.status).toBe('rejected');
+      executor.add(task, { dedupeKey: 'x' });
+      await executor.executeAllSettled();
+      expect(calls).toBe(2);
+    });
+    it('dedupeKey.03', async () => {
+      // 常駐時は実行中の処理の結果を共有する
+      const executor = new PromiseConcurrentExecutor(1);
+      let calls = 0;
+      const task = async () => {
+        calls++;
+        return waitFunction('resolve', 50);
+      };
+      executor.start();
+      const first = executor.add(task, { dedupeKey: 'x' });
+      await waitFunction('resolve', 20);
+      const second = executor.add(task, { dedupeKey: 'x' });
+      expect(await second.result).toBe(50);
+      expect(await first.result).toBe(50);
+      expect(calls).toBe(1);
+      await executor.stop();
+    });
+  });
+  describe('resultCache', () => {
+    it('resultCache.01', async () => {
+      // 有効期限内は関数を実行せずに保持した結果を返す
+      const executor = new PromiseConcurrentExecutor(2, { resultCache: { ttlMs: 100 } });
+      let calls = 0;
+      const task = async () => ++calls;
+      executor.add(task, { dedupeKey: 'x' });
+      expect(await executor.executeAll()).toEqual([1]);
+      executor.add(task, { dedupeKey: 'x' });
+      executor.add(task);
+      expect(await executor.executeAll()).toEqual([1, 2]);
+      await waitFunction('resolve', 150);
+      executor.add(task, { dedupeKey: 'x' });
+      expect(await executor.executeAll()).toEqual([3]);
+      expect(executor.getStats()).toMatchObject({ completed: 4, cacheHits: 1 });
+    });
+    it('resultCache.02', async () => {
+      // 失敗した結果は cacheRejected を指定した場合のみ保持する. 非同期の保存先も指定できる
+      const entries = new Map<string, PromiseSettledResult<unknown>>();
+      const store = {
+        get: async (key: string) => entries.get(key),
+        set: async (key: string, result: PromiseSettledResult<unknown>) => {
+          entries.set(key, result);
+        }
+      };
+      const executor = new PromiseConcurrentExecutor(2, { resultCache: { ttlMs: 1000, store } });
+      executor.add(async () => waitFunction('reject', 10), { dedupeKey: 'x' });
+      await executor.executeAllSettled();
+      expect(entries.size).toBe(0);
+      const cached = new PromiseConcurrentExecutor(2, { resultCache: { ttlMs: 1000, store, cacheRejected: true } });
+      cached.add(async () => waitFunction('reject', 10), { dedupeKey: 'x' });
+      await cached.executeAllSettled();
+      expect(entries.get('x')).toEqual({ status: 'rejected', reason: 10 });
+      cached.add(async () => waitFunction('resolve', 10), { dedupeKey: 'x' });
+      expect(await cached.executeAllSettled()).toEqual([{ status: 'rejected', reason: 10 }]);
+    });
+    it('resultCache.03', async () => {
+      // 保存先で例外が発生してもバッチは継続し、取得の失敗はキャッシュになかったものとして扱う
+      const stores = [
+        {
+          get: (): PromiseSettledResult<unknown> | undefined => {
+            throw new Error('get');
+          },
+          set: () => {
+            throw new Error('set');
+          }
+        },
+        {
+          get: async () => Promise.reject(new Error('get')),
+          set: async () => Promise.reject(new Error('set'))
+        }
+      ];
+      for (const store of stores) {
+        const executor = new PromiseConcurrentExecutor(2, { resultCache: { ttlMs: 1000, store } });
+        const errors: StoreErrorEvent[] = [];
+        executor.on('storeError', event => errors.push(event));
+        executor.add(async () => 1, { dedupeKey: 'x' });
+        executor.add(async () => 2);
+        expect(await executor.executeAll()).toEqual([1, 2]);
+        await waitFunction('resolve', 10);
+        expect(errors).toEqual([
+          { store: 'resultCache', operation: 'get', key: 'x', error: new Error('get') },
+          { store: 'resultCache', operation: 'set', key: 'x', error: new Error('set') }
+        ]);
+        expect(executor.getStats()).toMatchObject({ completed: 2, cacheHits: 0 });
+      }
+    });
+    it('resultCache.04', async () => {
+      // キャッシュの取得中に abort() した場合は、取得の完了後に開始せずにrejectする. 依存する処理も中断として扱う
+      const store = {
+        get: async (): Promise<PromiseSettledResult<unknown> | undefined> => {
+          await waitFunction('resolve', 50);
+          return undefined;
+        },
+        set: () => undefined
+      };
+      const executor = new PromiseConcurrentExecutor(2, { resultCache: { ttlMs: 1000, store } });
+      let calls = 0;
+      executor.add(async () => ++calls, { id: 'a', dedupeKey: 'x' });
+      executor.add(async () => ++calls, { dependsOn: ['a'] });
+      const promise = executor.executeAllSettled();
+      await waitFunction('resolve', 10);
+      executor.abort('stop');
+      expect(await promise).toEqual([
+        { status: 'rejected', reason: new TaskAbortedError('stop') },
+        { status: 'rejected', reason: new TaskAbortedError('stop') }
+      ]);
+      expect(calls).toBe(0);
+    });
+  });
+  describe('rateLimit', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('rateLimit.01', async () => {
+      // sliding: 並列実行数に空きがあっても期間あたりの開始数が制限される
+      const executor = new PromiseConcurrentExecutor(10, {
+        rateLimit: { limit: 2, windowMs: 1000 }
+      });
+      const start = Date.now();
+      const startedAt: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        executor.add(async () => {
+          startedAt.push(Date.now() - start);
+          return i;
+        });
+      }
+      const promise = executor.executeAll<number[]>();
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(await promise).toEqual([0, 1, 2, 3, 4]);
+      expect(startedAt).toEqual([0, 0, 1000, 1000, 2000]);
+    });
+    it('rateLimit.02', async () => {
+      // token-bucket: 枠を使い切った後は一定の割合で開始される
+      const executor = new PromiseConcurrentExecutor(10, {
+        rateLimit: { limit: 2, windowMs: 1000, strategy: 'token-bucket' }
+      });
+      const start = Date.now();
+      const startedAt: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        executor.add(async () => {
+          startedAt.push(Date.now() - start);
+          return i;
+        });
+      }
+      const promise = executor.executeAll<number[]>();
+      await jest.advanceTimersByTimeAsync(1500);
+      await promise;
+      expect(startedAt).toEqual([0, 0, 500, 1000, 1500]);
+    });
+    it('rateLimit.03', async () => {
+      // 残り枠の取得
+      const executor = new PromiseConcurrentExecutor(10, {
+        rateLimit: { limit: 3, windowMs: 1000 }
+      });
+      expect(new PromiseConcurrentExecutor(1).getRateLimit()).toBeUndefined();
+      expect(executor.getRateLimit()).toEqual({ limit: 3, remaining: 3, waitMs: 0 });
+      executor.addAll([async () => 1, async () => 2]);
+      await executor.executeAll();
+      expect(executor.getRateLimit()).toEqual({ limit: 3, remaining: 1, waitMs: 0 });
+      executor.reportRetryAfter(3000);
+      expect(executor.getRateLimit()).toEqual({ limit: 3, remaining: 0, waitMs: 3000 });
+    });
+    it('rateLimit.04', async () => {
+      // 関数からRetry-Afterが報告された場合は、その期間は関数を開始しない
+      const executor = new PromiseConcurrentExecutor(1, {
+        rateLimit: { limit: 100, windowMs: 1000 }
+      });
+      const start = Date.now();
+      const startedAt: number[] = [];
+      executor.add(async () => {
+        startedAt.push(Date.now() - start);
+        executor.reportRetryAfter(3000);
+        return 0;
+      });
+      executor.add(async () => {
+        startedAt.push(Date.now() - start);
+        return 1;
+      });
+      const promise = executor.executeAll<number[]>();
+      await jest.advanceTimersByTimeAsync(2999);
+      expect(startedAt).toEqual([0]);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(await promise).toEqual([0, 1]);
+      expect(startedAt).toEqual([0, 3000]);
+    });
+  });
+  describe('timeout', () => {
+    it('timeout.01', async () => {
+      // タイムアウトした関数は TaskTimeoutError でrejectされ、AbortSignalがabortされる
+      const executor = new PromiseConcurrentExecutor(1);
+      let received: AbortSignal | undefined;
+      executor.add(signal => {
+        received = signal;
+        return new Promise<number>(() => {}); // 完了しない関数
+      }, { timeoutMs: 100 });
+      executor.add(async () => waitFunction('resolve', 100));
+      const start = performance.now();
+      const results = await executor.executeAllSettled<number>();
+      const end = performance.now();
+      expect(results[0].status).toBe('rejected');
+      const reason = (results[0] as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(TaskTimeoutError);
+      expect(reason.timeoutMs).toBe(100);
+      expect(received?.aborted).toBe(true);
+      // タイムアウト後にスロットが解放されて後続の関数が実行される
+      expect(results[1]).toEqual({
+        status: 'fulfilled',
+        value: 100
+      });
+      const executionTime = end - start;
+      console.log('executionTime', executionTime);
+      expect(executionTime).toBeLessThan(300);
+    });
+    it('timeout.02', async () => {
+      // executeAllでタイムアウトした場合は TaskTimeoutError でrejectされる
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.add(async () => waitFunction('resolve', 500), { timeoutMs: 100 });
+      executor.add(async () => waitFunction('resolve', 50), { timeoutMs: 100 });
+      await expect(executor.executeAll()).rejects.toBeInstanceOf(TaskTimeoutError);
+    });
+  });
+  describe('abort', () => {
+    it('abort.01', async () => {
+      // 実行中の関数はabortされ、実行待ちの関数は開始されない
+      const executor = new PromiseConcurrentExecutor(1);
+      const started: number[] = [];
+      const signals: AbortSignal[] = [];
+      for (let i = 0; i < 3; i++) {
+        executor.add(signal => {
+          started.push(i);
+          signals.push(signal);
+          return waitFunction('resolve', 200);
+        });
+      }
+      setTimeout(() => executor.abort('stop'), 50);
+      const results = await executor.executeAllSettled<number>();
+      expect(started).toEqual([0]);
+      expect(signals[0].aborted).toBe(true);
+      for (const result of results) {
+        expect(result.status).toBe('rejected');
+        const reason = (result as PromiseRejectedResult).reason;
+        expect(reason).toBeInstanceOf(TaskAbortedError);
+        expect(reason.reason).toBe('stop');
+      }
+      // 中断後も再利用できる
+      executor.add(async () => waitFunction('resolve', 10));
+      const results2 = await executor.executeAll<number[]>();
+      expect(results2).toEqual([10]);
+    });
+    it('abort.02', async () => {
+      // 実行前に中断した場合は実行一覧が破棄される
+      const executor = new PromiseConcurrentExecutor(1);
+      executor.add(async () => waitFunction('resolve', 10));
+      executor.abort();
+      expect(executor.size()).toBe(0);
+      const results = await executor.executeAll();
+      expect(results).toEqual([]);
+    });
+    it('abort.03', async () => {
+      // 関数単位のシグナルで実行待ちの関数を中断する
+      const executor = new PromiseConcurrentExecutor(1);
+      const controller = new AbortController();
+      const started: number[] = [];
+      executor.add(async () => {
+        started.push(0);
+        return waitFunction('resolve', 100);
+      });
+      executor.add(async () => {
+        started.push(1);
+        return waitFunction('resolve', 100);
+      }, { signal: controller.signal });
+      executor.add(async () => {
+        started.push(2);
+        return waitFunction('resolve', 100);
+      });
+      setTimeout(() => controller.abort(), 50);
+      const results = await executor.executeAllSettled<number>();
+      expect(started).toEqual([0, 2]);
+      expect(results[0]).toEqual({
+        status: 'fulfilled',
+        value: 100
+      });
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(TaskAbortedError);
+      expect(results[2]).toEqual({
+        status: 'fulfilled',
+        value: 100
+      });
+    });
+    it('abort.04', async () => {
+      // 実行待ちの関数は、実行中の関数の完了を待たずに即座に中断される
+      const executor = new PromiseConcurrentExecutor(1);
+      executor.start();
+      const controller = new AbortController();
+      const running = executor.add(async () => waitFunction('resolve', 500));
+      const queued = executor.add(async () => 1, { signal: controller.signal });
+      const abortedAt = Date.now();
+      setTimeout(() => controller.abort('cancel'), 20);
+      await expect(queued.result).rejects.toEqual(new TaskAbortedError('cancel'));
+      expect(Date.now() - abortedAt).toBeLessThan(300);
+      expect(executor.getStats().queued).toBe(0);
+      // 停止中も即座に中断される
+      executor.pause();
+      const paused = new AbortController();
+      const held = executor.add(async () => 2, { signal: paused.signal });
+      paused.abort();
+      await expect(held.result).rejects.toBeInstanceOf(TaskAbortedError);
+      executor.resume();
+      await running.result;
+      await executor.stop();
+    });
+    it('abort.05', async () => {
+      // 同じシグナルを共有する実行待ちの関数が多数あっても、リスナーはシグナルごとに1つのみ登録する
+      const executor = new PromiseConcurrentExecutor(1);
+      const controller = new AbortController();
+      const warnings: Error[] = [];
+      const onWarning = (warning: Error) => warnings.push(warning);
+      process.on('warning', onWarning);
+      try {
+        for (let i = 0; i < 50; i++) {
+          executor.add(async () => waitFunction('resolve', 100), { signal: controller.signal });
+        }
+        const promise = executor.executeAllSettled();
+        await waitFunction('resolve', 10);
+        // 実行中の関数と実行待ちの関数でそれぞれ1つ
+        expect(getEventListeners(controller.signal, 'abort').length).toBe(2);
+        controller.abort('cancel');
+        const results = await promise;
+        expect(results.every(result => result.status === 'rejected' && result.reason instanceof TaskAbortedError)).toBe(true);
+        expect(getEventListeners(controller.signal, 'abort').length).toBe(0);
+        await waitFunction('resolve', 10);
+        expect(warnings.filter(warning => warning.name === 'MaxListenersExceededWarning')).toEqual([]);
+      } finally {
+        process.off('warning', onWarning);
+      }
+    });
+  });
+  describe('retry', () => {
+    it('retry.01', async () => {
+      // 失敗した関数がリトライされて成功する
+      const executor = new PromiseConcurrentExecutor(1);
+      let attempts = 0;
+      executor.add(async () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error(`error ${attempts}`);
+        }
+        return attempts;
+      }, { retry: { retries: 3, minDelayMs: 10 } });
+      const results = await executor.executeAll<number[]>();
+      expect(results).toEqual([3]);
+      expect(attempts).toBe(3);
+    });
+    it('retry.02', async () => {
+      // すべての試行が失敗した場合は各試行のエラーを保持した TaskRetryError でrejectされる
+      const executor = new PromiseConcurrentExecutor(1, {
+        retry: { retries: 2, minDelayMs: 10, factor: 3 }
+      });
+      let attempts = 0;
+      executor.add(async () => {
+        throw new Error(`error ${++attempts}`);
+      });
+      const start = performance.now();
+      const results = await executor.executeAllSettled();
+      const end = performance.now();
+      const reason = (results[0] as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(TaskRetryError);
+      expect(reason.errors.map((e: Error) => e.message)).toEqual(['error 1', 'error 2', 'error 3']);
+      // 10ms + 30ms の待機
+      expect(end - start).toBeGreaterThanOrEqual(35);
+    });
+    it('retry.03', async () => {
+      // retryOnがfalseを返した場合はリトライしない
+      const executor = new PromiseConcurrentExecutor(1);
+      const retryOn = jest.fn((error: unknown, _attempt: number) => (error as Error).message !== 'fatal');
+      let attempts = 0;
+      executor.add(async () => {
+        attempts++;
+        throw new Error(attempts === 1 ? 'temporary' : 'fatal');
+      }, { retry: { retries: 5, minDelayMs: 10, retryOn } });
+      const results = await executor.executeAllSettled();
+      expect(attempts).toBe(2);
+      expect(retryOn.mock.calls.map(call => call[1])).toEqual([1, 2]);
+      expect((results[0] as PromiseRejectedResult).reason.errors.length).toBe(2);
+    });
+    it('retry.04', async () => {
+      // リトライの待機中はスロットを解放し、他の関数が実行される
+      const executor = new PromiseConcurrentExecutor(1);
+      const events: string[] = [];
+      let attempts = 0;
+      executor.add(async () => {
+        events.push(`A${++attempts}`);
+        if (attempts === 1) {
+          throw new Error('retry');
+        }
+        return 0;
+      }, { retry: { retries: 1, minDelayMs: 200 } });
+      executor.add(async () => {
+        events.push('B');
+        return waitFunction('resolve', 50);
+      });
+      await executor.executeAll();
+      expect(events).toEqual(['A1', 'B', 'A2']);
+    });
+    it('retry.05', async () => {
+      // 中断された関数はリトライしない
+      const executor = new PromiseConcurrentExecutor(1);
+      let attempts = 0;
+      executor.add(async () => {
+        attempts++;
+        throw new Error('retry');
+      }, { retry: { retries: 3, minDelayMs: 1000 } });
+      setTimeout(() => executor.abort(), 50);
+      const results = await executor.executeAllSettled();
+      expect(attempts).toBe(1);
+      expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(TaskAbortedError);
+    });
+  });
+  describe('events', () => {
+    it('events.01', async () => {
+      // 処理と実行状態に関するイベントが送出される
+      const executor = new PromiseConcurrentExecutor(1);
+      const events: [string, any][] = [];
+      (['taskQueued', 'taskStart', 'taskSuccess', 'taskError', 'taskSettled', 'active', 'idle', 'drain'] as const).forEach(event => {
+        executor.on(event, (payload: any) => events.push([event, payload]));
+      });
+      executor.add(async () => waitFunction('resolve', 100), { label: 'first' });
+      executor.add(async () => waitFunction('reject', 50), { label: 'second' });
+      await executor.executeAllSettled();
+      const names = events.map(([event]) => event);
+      expect(names[0]).toBe('taskQueued');
+      expect(names[1]).toBe('taskQueued');
+      expect(names[2]).toBe('active');
+      expect(names[names.length - 1]).toBe('idle');
+      expect(names.filter(name => name === 'drain').length).toBe(1);
+      const find = (name: string, index: number) => events.find(([event, payload]) => event === name && payload.index === index)?.[1];
+      expect(find('taskQueued', 0)).toEqual({ index: 0, label: 'first' });
+      expect(find('taskStart', 1)).toEqual({ index: 1, label: 'second', attempt: 1 });
+      const success = find('taskSuccess', 0);
+      expect(success).toEqual({ index: 0, label: 'first', duration: expect.any(Number), result: 100 });
+      expect(success.duration).toBeGreaterThanOrEqual(95);
+      expect(find('taskError', 1)).toEqual({ index: 1, label: 'second', duration: expect.any(Number), error: 50 });
+      expect(find('taskSettled', 0)).toEqual({ ...success, status: 'fulfilled' });
+      expect(find('taskSettled', 1)).toEqual({ ...find('taskError', 1), status: 'rejected' });
+    });
+    it('events.02', async () => {
+      // リトライした場合は試行ごとに taskStart が送出され、開始前に中断された処理は duration が0になる
+      const executor = new PromiseConcurrentExecutor(1);
+      const starts: [number, number][] = [];
+      const errors: [number, number][] = [];
+      executor.on('taskStart', event => starts.push([event.index, event.attempt]));
+      executor.on('taskError', event => errors.push([event.index, event.duration]));
+      let attempts = 0;
+      executor.add(async () => {
+        if (++attempts < 3) {
+          throw new Error('retry');
+        }
+        return waitFunction('resolve', 10);
+      }, { retry: { retries: 2, minDelayMs: 10 } });
+      const controller = new AbortController();
+      controller.abort();
+      executor.add(async () => waitFunction('resolve', 10), { signal: controller.signal });
+      await executor.executeAllSettled();
+      expect(starts).toEqual([[0, 1], [0, 2], [0, 3]]);
+      expect(errors.find(([index]) => index === 1)).toEqual([1, 0]);
+    });
+  });
+  describe('getStats', () => {
+    it('getStats.01', async () => {
+      // 実行前・実行中・実行後の統計
+      const executor = new PromiseConcurrentExecutor(2);
+      for (let i = 0; i < 3; i++) {
+        executor.add(async () => waitFunction('resolve', 100));
+      }
+      executor.add(async () => waitFunction('reject', 50));
+      expect(executor.getStats()).toEqual({
+        queued: 4,
+        running: 0,
+        completed: 0,
+        failed: 0,
+        retried: 0,
+        timedOut: 0,
+        deduplicated: 0,
+        cacheHits: 0,
+        peakConcurrency: 0,
+        totalWaitTime: 0,
+        totalRunTime: 0,
+        latency: { p50: 0, p95: 0, p99: 0 }
+      });
+      const promise = executor.executeAllSettled();
+      expect(executor.getStats()).toMatchObject({ queued: 2, running: 2 });
+      await promise;
+      const stats = executor.getStats();
+      expect(stats).toMatchObject({ queued: 0, running: 0, completed: 3, failed: 1, peakConcurrency: 2 });
+      // 3件目以降は先行する処理の完了を待つ
+      expect(stats.totalWaitTime).toBeGreaterThanOrEqual(190);
+      expect(stats.totalRunTime).toBeGreaterThanOrEqual(340);
+      expect(stats.latency.p50).toBeGreaterThanOrEqual(95);
+      expect(stats.latency.p99).toBeLessThan(200);
+    });
+    it('getStats.02', async () => {
+      // リトライ・タイムアウトは試行単位で集計される
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.add(async () => waitFunction('resolve', 200), {
+        timeoutMs: 50,
+        retry: { retries: 1, minDelayMs: 10 }
+      });
+      await executor.executeAllSettled();
+      expect(executor.getStats()).toMatchObject({ completed: 0, failed: 1, retried: 1, timedOut: 2 });
+    });
+    it('getStats.03', async () => {
+      // 統計を MetricsSink へ送信する. 送信先の例外は実行に影響させず、metricsError イベントで通知する
+      const increments: [string, number][] = [];
+      const observed: string[] = [];
+      const gauges: [string, number][] = [];
+      const executor = new PromiseConcurrentExecutor(1, {
+        metricsSink: {
+          increment: (name, value) => increments.push([name, value]),
+          observe: name => {
+            observed.push(name);
+          },
+          gauge: (name, value) => {
+            gauges.push([name, value]);
+            if (name === 'queued') {
+              throw new Error('sink error');
+            }
+          }
+        }
+      });
+      const errors: MetricsErrorEvent[] = [];
+      executor.on('metricsError', event => errors.push(event));
+      executor.add(async () => waitFunction('resolve', 10));
+      executor.add(async () => waitFunction('reject', 10));
+      await executor.executeAllSettled();
+      expect(increments).toEqual([['completed', 1], ['failed', 1]]);
+      expect(observed).toEqual(['waitTime', 'runTime', 'waitTime', 'runTime']);
+      expect(gauges.filter(([name]) => name === 'running').map(([, value]) => value)).toEqual([1, 0, 1, 0]);
+      expect(errors).toEqual([...Array(4)].map(() => ({ method: 'gauge', error: new Error('sink error') })));
+    });
+    it('getStats.04', async () => {
+      // 実行時間の百分位数は直近 latencyWindowSize 件を対象とする
+      const executor = new PromiseConcurrentExecutor(1, { latencyWindowSize: 2 });
+      executor.add(async () => waitFunction('resolve', 150));
+      executor.add(async () => waitFunction('resolve', 10));
+      executor.add(async () => waitFunction('resolve', 10));
+      await executor.executeAll();
+      expect(executor.getStats().latency.p99).toBeLessThan(100);
+    });
+    it('getStats.05', async () => {
+      // 送信先の例外は再送出しない(処理結果の確定前に送信するカウンターを含む)
+      const executor = new PromiseConcurrentExecutor(1, {
+        metricsSink: {
+          increment: () => {
+            throw new Error('increment');
+          }
+        }
+      });
+      const errors: MetricsErrorEvent[] = [];
+      executor.on('metricsError', event => errors.push(event));
+      const microtask = jest.spyOn(globalThis, 'queueMicrotask');
+      try {
+        executor.add(async () => 1);
+        executor.add(async () => 2);
+        expect(await executor.executeAll()).toEqual([1, 2]);
+        expect(microtask).not.toHaveBeenCalled();
+      } finally {
+        microtask.mockRestore();
+      }
+      expect(errors).toEqual([
+        { method: 'increment', error: new Error('increment') },
+        { method: 'increment', error: new Error('increment') }
+      ]);
+      expect(executor.getStats().completed).toBe(2);
+    });
+  });
+  describe('add', () => {
+    it('add.01', async () => {
+      // 追加した処理ごとに状態と結果を参照できる
+      const executor = new PromiseConcurrentExecutor(1);
+      const first = executor.add(async () => waitFunction('resolve', 20), { id: 'first' });
+      const second = executor.add(async () => waitFunction('reject', 10));
+      executor.add(async () => waitFunction('reject', 10));
+      expect(first.id).toBe('first');
+      expect(second.id).toBe(1);
+      expect(second.index).toBe(1);
+      expect(first.status).toBe('queued');
+      const promise = executor.executeAllSettled();
+      await waitFunction('resolve', 10);
+      expect(first.status).toBe('running');
+      expect(second.status).toBe('queued');
+      await promise;
+      expect(first.status).toBe('fulfilled');
+      expect(second.status).toBe('rejected');
+      const result: Promise<number> = first.result;
+      await expect(result).resolves.toBe(20);
+      await expect(second.result).rejects.toBe(10);
+    });
+    it('add.02', async () => {
+      // 実行前に破棄された処理は TaskAbortedError でrejectされる
+      const executor = new PromiseConcurrentExecutor(2);
+      const handle = executor.add(async () => waitFunction('resolve', 20));
+      executor.abort('cancel');
+      await expect(handle.result).rejects.toEqual(new TaskAbortedError('cancel'));
+      expect(handle.status).toBe('rejected');
+      expect(executor.size()).toBe(0);
+    });
+    it('add.03', async () => {
+      // リトライの待機中は開始前の状態となる
+      const executor = new PromiseConcurrentExecutor(1);
+      let attempts = 0;
+      const handle = executor.add(async () => {
+        if (++attempts === 1) {
+          throw new Error('retry');
+        }
+        return attempts;
+      }, { retry: { retries: 1, minDelayMs: 50 } });
+      const promise = executor.executeAll();
+      await waitFunction('resolve', 20);
+      expect(handle.status).toBe('queued');
+      await promise;
+      expect(handle.status).toBe('fulfilled');
+      await expect(handle.result).resolves.toBe(2);
+    });
+  });
+  describe('append', () => {
+    it('append.01', async () => {
+      // 追加した処理の結果の型がタプル型として推論される
+      const executor = new PromiseConcurrentExecutor(2)
+        .append(async () => ({ name: 'user' }))
+        .append(async () => [1, 2, 3])
+        .append(async () => undefined);
+      const [user, orders, none]: [{ name: string }, number[], undefined] = await executor.executeAll();
+      expect(user.name).toBe('user');
+      expect(orders).toEqual([1, 2, 3]);
+      expect(none).toBeUndefined();
+    });
+    it('append.02', async () => {
+      // executeAllSettled でも要素ごとの型が推論される
+      const executor = new PromiseConcurrentExecutor(2)
+        .append(async () => 'text')
+        .append(async (): Promise<number> => {
+          throw new Error('failure');
+        });
+      const [text, failure] = await executor.executeAllSettled();
+      const value: string | undefined = text.status === 'fulfilled' ? text.value : undefined;
+      expect(value).toBe('text');
+      expect(failure.status).toBe('rejected');
+      // Genericsを指定した場合は従来どおり単一の型の配列となる
+      executor.add(async () => 1);
+      const results: PromiseSettledResult<number>[] = await executor.executeAllSettled<number>();
+      expect(results).toEqual([{ status: 'fulfilled', value: 1 }]);
+    });
+  });
+  describe('start', () => {
+    it('start.01', async () => {
+      // 常駐中は追加した処理を即座に実行し、処理ごとに結果を返す
+      const executor = new PromiseConcurrentExecutor(2);
+      const queued = executor.add(async () => waitFunction('resolve', 30)).result;
+      executor.start();
+      const indexes: number[] = [];
+      executor.on('taskQueued', event => indexes.push(event.index));
+      const results = await Promise.allSettled([
+        queued,
+        executor.add(async () => waitFunction('resolve', 10)).result,
+        executor.add(async () => waitFunction('reject', 20)).result
+      ]);
+      expect(results).toEqual([
+        { status: 'fulfilled', value: 30 },
+        { status: 'fulfilled', value: 10 },
+        { status: 'rejected', reason: 20 }
+      ]);
+      expect(indexes).toEqual([1, 2]);
+      // 待機中に追加した処理も実行する
+      await waitFunction('resolve', 20);
+      await expect(executor.add(async () => 'later').result).resolves.toBe('later');
+      await executor.stop();
+    });
+    it('start.02', async () => {
+      // 常駐中は並列実行数の制限が適用され、一括実行は呼び出せない
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.start({ interval: 0 });
+      expect(() => executor.start()).toThrow('Execution is already in progress.');
+      await expect(executor.executeAll()).rejects.toThrow('Execution is already in progress.');
+      let running = 0;
+      let peak = 0;
+      for (let i = 0; i < 6; i++) {
+        executor.add(async () => {
+          peak = Math.max(peak, ++running);
+          await waitFunction('resolve', 20);
+          running--;
+        });
+      }
+      await executor.onIdle();
+      expect(running).toBe(0);
+      expect(peak).toBe(2);
+      expect(executor.getStats()).toMatchObject({ completed: 6, queued: 0, running: 0 });
+      await executor.stop();
+    });
+    it('start.03', async () => {
+      // stop() は実行中の処理の完了を待ち、終了後は一括実行に戻る
+      const executor = new PromiseConcurrentExecutor(2);
+      executor.start();
+      let completed = false;
+      executor.add(async () => {
+        await waitFunction('resolve', 50);
+        completed = true;
+      });
+      const stopping = executor.stop();
+      expect(() => executor.add(async () => 1)).toThrow('Cannot add any processes while execution is in progress.');
+      await stopping;
+      expect(completed).toBe(true);
+      // 常駐していない場合は何もしない
+      await executor.stop();
+      executor.add(async () => waitFunction('resolve', 10));
+      expect(await executor.executeAll()).toEqual([10]);
+    });
   });
   describe('addWithAutoExecute', () => {
     it('addWithAutoExecute.01', async () => {
@@ -542,6 +2344,124 @@ describe('@/promise-concurrent-executor.ts', () => {
       }
       expect(executor.size()).toBe(2); // 4件ずつ実行されて2件余る
     });
+    it('addWithAutoExecute.02', async () => {
+      // awaitせずに追加しても、バッチの実行中に追加した関数は失われずに後続のバッチで実行される
+      const batches: { size: number, trigger: string }[] = [];
+      let completed = 0;
+      const executor = new PromiseConcurrentExecutor(5, {
+        autoExecute: {
+          type: 'allSettled',
+          triggerThreshold: 4,
+          onBatchResult: (results, batchInfo) => {
+            expect(results.length).toBe(batchInfo.size);
+            batches.push({ size: batchInfo.size, trigger: batchInfo.trigger });
+          }
+        }
+      });
+      for (let i = 0; i < 10; i++) {
+        executor.addWithAutoExecute(async () => {
+          await waitFunction('resolve', 50);
+          completed++;
+        });
+      }
+      await executor.flush();
+      expect(completed).toBe(10);
+      expect(executor.size()).toBe(0);
+      // 最初のバッチの実行中に追加された6件は、完了後にまとめて実行される
+      expect(batches).toEqual([
+        { size: 4, trigger: 'threshold' },
+        { size: 6, trigger: 'threshold' }
+      ]);
+    });
+    it('addWithAutoExecute.03', async () => {
+      // maxWaitMsが経過すると件数に到達していなくても実行される
+      const results: PromiseSettledResult<any>[][] = [];
+      const executor = new PromiseConcurrentExecutor(5, {
+        autoExecute: {
+          type: 'all',
+          triggerThreshold: 10,
+          maxWaitMs: 100,
+          onBatchResult: batchResults => {
+            results.push(batchResults);
+          }
+        }
+      });
+      await executor.addWithAutoExecute(async () => 1);
+      await executor.addWithAutoExecute(async () => 2);
+      expect(executor.size()).toBe(2);
+      await waitFunction('resolve', 50);
+      expect(results.length).toBe(0);
+      await waitFunction('resolve', 100);
+      expect(executor.size()).toBe(0);
+      expect(results).toEqual([[{ status: 'fulfilled', value: 1 }, { status: 'fulfilled', value: 2 }]]);
+    });
+    it('addWithAutoExecute.04', async () => {
+      // onBatchResultがPromiseを返した場合は完了してから次のバッチを開始する
+      const events: string[] = [];
+      const executor = new PromiseConcurrentExecutor(5, {
+        autoExecute: {
+          type: 'allSettled',
+          triggerThreshold: 2,
+          onBatchResult: async (_, batchInfo) => {
+            events.push(`batch${batchInfo.batch}:start`);
+            await waitFunction('resolve', 50);
+            events.push(`batch${batchInfo.batch}:end`);
+          }
+        }
+      });
+      for (let i = 0; i < 4; i++) {
+        executor.addWithAutoExecute(async () => {
+          events.push(`task${i}`);
+        });
+      }
+      await executor.flush();
+      expect(events).toEqual(['task0', 'task1', 'batch1:start', 'batch1:end', 'task2', 'task3', 'batch2:start', 'batch2:end']);
+    });
+    it('addWithAutoExecute.05', async () => {
+      // maxWaitMsにより開始したtype 'all'のバッチが失敗した場合はonBatchErrorで受け取る
+      const errors: { error: unknown, trigger: string }[] = [];
+      const onBatchResult = jest.fn();
+      const executor = new PromiseConcurrentExecutor(5, {
+        autoExecute: {
+          type: 'all',
+          triggerThreshold: 10,
+          maxWaitMs: 50,
+          onBatchResult,
+          onBatchError: (error, batchInfo) => {
+            expect(batchInfo.size).toBe(2);
+            errors.push({ error, trigger: batchInfo.trigger });
+          }
+        }
+      });
+      await executor.addWithAutoExecute(async () => 1);
+      await executor.addWithAutoExecute(async () => {
+        throw new Error('failed');
+      });
+      await waitFunction('resolve', 100);
+      expect(errors).toEqual([{ error: new Error('failed'), trigger: 'maxWait' }]);
+      expect(onBatchResult).not.toHaveBeenCalled();
+      // 失敗後も後続のバッチを実行できる
+      await executor.addWithAutoExecute(async () => 3);
+      await executor.flush();
+      expect(onBatchResult).toHaveBeenCalledWith([{ status: 'fulfilled', value: 3 }], expect.objectContaining({ trigger: 'flush' }));
+    });
+  });
+  describe('flush', () => {
+    it('flush.01', async () => {
+      // 自動実行の設定がない場合はallSettledで実行する
+      const executor = new PromiseConcurrentExecutor(5);
+      let completed = 0;
+      await executor.addWithAutoExecute(async () => {
+        completed++;
+      });
+      await executor.addWithAutoExecute(async () => waitFunction('reject', 10));
+      expect(executor.size()).toBe(2);
+      await executor.flush();
+      expect(completed).toBe(1);
+      expect(executor.size()).toBe(0);
+      // 実行する処理がない場合は何もしない
+      await executor.flush();
+    });
   });
   describe('addAllWithAutoExecute', () => {
     it('addAllWithAutoExecute.01', async () => {
@@ -0,0 +1,46 @@
+import { RateLimiter } from '@/rate-limiter';
+
+describe('@/rate-limiter.ts', () => {
+  describe('constructor', () => {
+    it('constructor.01', () => {
+      // 不正な設定
+      expect(() => new RateLimiter({ limit: 0, windowMs: 1000 })).toThrow();
+      expect(() => new RateLimiter({ limit: 1, windowMs: 0 })).toThrow();
+    });
+  });
+  describe('acquire', () => {
+    it('acquire.01', () => {
+      // sliding: 直近windowMsの間にlimit件まで開始できる
+      const limiter = new RateLimiter({ limit: 2, windowMs: 1000 });
+      expect(limiter.acquire(0)).toBe(0);
+      expect(limiter.acquire(400)).toBe(0);
+      expect(limiter.acquire(500)).toBe(500);
+      expect(limiter.acquire(1000)).toBe(0);
+      expect(limiter.acquire(1000)).toBe(400);
+      expect(limiter.acquire(1400)).toBe(0);
+    });
+    it('acquire.02', () => {
+      // token-bucket: windowMsあたりlimit件の割合で枠が補充される
+      const limiter = new RateLimiter({ limit: 2, windowMs: 1000, strategy: 'token-bucket' });
+      const now = Date.now();
+      expect(limiter.acquire(now)).toBe(0);
+      expect(limiter.acquire(now)).toBe(0);
+      expect(limiter.acquire(now)).toBe(500);
+      expect(limiter.acquire(now + 250)).toBe(250);
+      expect(limiter.acquire(now + 500)).toBe(0);
+      // 枠はlimit件までしか蓄積されない
+      expect(limiter.getBudget(now + 10000).remaining).toBe(2);
+    });
+  });
+  describe('getBudget', () => {
+    it('getBudget.01', () => {
+      const limiter = new RateLimiter({ limit: 3, windowMs: 1000 });
+      expect(limiter.getBudget(0)).toEqual({ limit: 3, remaining: 3, waitMs: 0 });
+      limiter.acquire(0);
+      limiter.acquire(100);
+      limiter.acquire(200);
+      expect(limiter.getBudget(300)).toEqual({ limit: 3, remaining: 0, waitMs: 700 });
+      expect(limiter.getBudget(1050)).toEqual({ limit: 3, remaining: 1, waitMs: 0 });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { ConcurrencyPool } from '@/concurrency-pool';
+import { TaskAbortedError } from '@/errors';
+import { Semaphore } from '@/semaphore';
+
+const sleep = (msec: number) => new Promise(resolve => setTimeout(resolve, msec));
+
+describe('@/semaphore.ts', () => {
+  describe('constructor', () => {
+    it('constructor.01', () => {
+      // 不正な設定
+      expect(() => new Semaphore(0)).toThrow('Semaphore capacity must be at least 1.');
+    });
+  });
+  describe('acquire', () => {
+    it('acquire.01', async () => {
+      // 容量まで取得でき、解放された時点で待機している要求へ割り当てる
+      const semaphore = new Semaphore(2);
+      const release1 = await semaphore.acquire();
+      const release2 = await semaphore.acquire();
+      expect(semaphore.getAvailable()).toBe(0);
+      let acquired = false;
+      const waiting = semaphore.acquire().then(release => {
+        acquired = true;
+        return release;
+      });
+      await sleep(10);
+      expect(acquired).toBe(false);
+      expect(semaphore.getPendingCount()).toBe(1);
+      release1();
+      // 2回目以降の呼び出しは無視する
+      release1();
+      const release3 = await waiting;
+      expect(semaphore.getPendingCount()).toBe(0);
+      release2();
+      release3();
+      await sleep(0);
+      expect(semaphore.getAvailable()).toBe(2);
+    });
+    it('acquire.02', async () => {
+      // 優先度の高い順に割り当て、weight の大きい要求は追い越されない
+      const semaphore = new Semaphore(3);
+      const release = await semaphore.acquire(2);
+      const order: string[] = [];
+      const request = (name: string, weight: number, priority = 0) => semaphore.acquire({ weight, priority }).then(release => {
+        order.push(name);
+        return release;
+      });
+      const heavy = request('heavy', 3);
+      const light = request('light', 1);
+      const urgent = request('urgent', 1, 10);
+      const releaseUrgent = await urgent;
+      expect(order).toEqual(['urgent']);
+      releaseUrgent();
+      release();
+      (await heavy)();
+      (await light)();
+      expect(order).toEqual(['urgent', 'heavy', 'light']);
+    });
+    it('acquire.03', async () => {
+      // 取得前に signal がabortされた場合は TaskAbortedError でrejectし、取得後のabortは無視する
+      const semaphore = new Semaphore(1);
+      const controller = new AbortController();
+      const release = await semaphore.acquire({ signal: controller.signal });
+      const waitingController = new AbortController();
+      const waiting = semaphore.acquire({ signal: waitingController.signal });
+      waitingController.abort('cancel');
+      await expect(waiting).rejects.toEqual(new TaskAbortedError('cancel'));
+      expect(semaphore.getPendingCount()).toBe(0);
+      await expect(semaphore.acquire({ signal: waitingController.signal })).rejects.toBeInstanceOf(TaskAbortedError);
+      controller.abort();
+      expect(semaphore.getAvailable()).toBe(0);
+      release();
+      (await semaphore.acquire())();
+      await expect(semaphore.acquire(2)).rejects.toThrow('Task weight 2 exceeds the concurrency 1.');
+    });
+  });
+  describe('tryAcquire', () => {
+    it('tryAcquire.01', async () => {
+      // 空きがある場合のみ待機せずに取得する
+      const semaphore = new Semaphore(2);
+      const release = semaphore.tryAcquire(2)!;
+      expect(release).toBeInstanceOf(Function);
+      expect(semaphore.tryAcquire()).toBeUndefined();
+      const waiting = semaphore.acquire();
+      release();
+      // 取得を待っている要求を追い越さない
+      expect(semaphore.tryAcquire()).toBeUndefined();
+      (await waiting)();
+      await sleep(0);
+      expect(semaphore.tryAcquire()).toBeInstanceOf(Function);
+      expect(() => semaphore.tryAcquire(3)).toThrow('Task weight 3 exceeds the concurrency 2.');
+    });
+    it('tryAcquire.02', async () => {
+      // 共有プールの枠も取得する
+      const pool = new ConcurrencyPool(1);
+      const a = new Semaphore(2, { pool });
+      const b = new Semaphore(2, { pool });
+      const release = a.tryAcquire()!;
+      expect(pool.getUsed()).toBe(1);
+      expect(b.getAvailable()).toBe(0);
+      expect(b.tryAcquire()).toBeUndefined();
+      const waiting = b.acquire();
+      release();
+      (await waiting)();
+      await sleep(0);
+      expect(pool.getUsed()).toBe(0);
+    });
+  });
+  describe('runExclusive', () => {
+    it('runExclusive.01', async () => {
+      // 同時に実行する関数の数を容量までに制限し、失敗した場合も解放する
+      const semaphore = new Semaphore(2);
+      let running = 0;
+      let peak = 0;
+      const results = await Promise.allSettled([1, 2, 3, 4, 5].map(value => semaphore.runExclusive(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(10);
+        running--;
+        if (value === 3) {
+          throw new Error('failed');
+        }
+        return value;
+      })));
+      expect(peak).toBe(2);
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+      await sleep(0);
+      expect(semaphore.getAvailable()).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { StatsCollector } from '@/stats-collector';
+
+describe('@/stats-collector.ts', () => {
+  describe('snapshot', () => {
+    it('snapshot.01', () => {
+      // 記録がない場合
+      const collector = new StatsCollector(10);
+      expect(collector.snapshot(0, 3)).toEqual({
+        queued: 3,
+        running: 0,
+        completed: 0,
+        failed: 0,
+        retried: 0,
+        timedOut: 0,
+        deduplicated: 0,
+        cacheHits: 0,
+        peakConcurrency: 0,
+        totalWaitTime: 0,
+        totalRunTime: 0,
+        latency: { p50: 0, p95: 0, p99: 0 }
+      });
+    });
+    it('snapshot.02', () => {
+      // 累計と最大同時実行数
+      const collector = new StatsCollector(10);
+      collector.increment('completed');
+      collector.increment('completed');
+      collector.increment('failed');
+      collector.increment('retried');
+      collector.increment('timedOut');
+      collector.recordGauges(1, 2);
+      collector.recordGauges(3, 0);
+      collector.recordGauges(0, 0);
+      collector.recordWaitTime(5);
+      collector.recordWaitTime(7);
+      collector.recordRunTime(100);
+      expect(collector.snapshot(0, 0)).toMatchObject({
+        completed: 2,
+        failed: 1,
+        retried: 1,
+        timedOut: 1,
+        peakConcurrency: 3,
+        totalWaitTime: 12,
+        totalRunTime: 100
+      });
+    });
+  });
+  describe('recordRunTime', () => {
+    it('recordRunTime.01', () => {
+      // 百分位数は最近接順位法で算出する
+      const collector = new StatsCollector(100);
+      for (let i = 100; i >= 1; i--) {
+        collector.recordRunTime(i);
+      }
+      expect(collector.snapshot(0, 0).latency).toEqual({ p50: 50, p95: 95, p99: 99 });
+    });
+    it('recordRunTime.02', () => {
+      // 百分位数は直近 windowSize 件を対象とし、累計はすべてを対象とする
+      const collector = new StatsCollector(3);
+      [1000, 1, 2, 3, 4].forEach(runTime => collector.recordRunTime(runTime));
+      const stats = collector.snapshot(0, 0);
+      expect(stats.latency).toEqual({ p50: 3, p95: 4, p99: 4 });
+      expect(stats.totalRunTime).toBe(1010);
+    });
+  });
+});
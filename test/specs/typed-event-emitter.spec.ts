@@ -0,0 +1,71 @@
+import { TypedEventEmitter } from '@/typed-event-emitter';
+
+interface TestEvents {
+  message: string;
+  count: number;
+  done: void;
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  public send<K extends keyof TestEvents>(event: K, ...args: TestEvents[K] extends void ? [] : [TestEvents[K]]): void {
+    this.emit(event, ...args);
+  }
+}
+
+describe('@/typed-event-emitter.ts', () => {
+  describe('on / off', () => {
+    it('on.01', () => {
+      // 登録したリスナーにイベントが通知され、解除後は通知されない
+      const emitter = new TestEmitter();
+      const messages: string[] = [];
+      const listener = (message: string) => messages.push(message);
+      emitter.on('message', listener);
+      emitter.send('message', 'a');
+      emitter.send('count', 1);
+      emitter.off('message', listener);
+      emitter.send('message', 'b');
+      expect(messages).toEqual(['a']);
+      expect(emitter.listenerCount('message')).toBe(0);
+    });
+    it('on.02', () => {
+      // ペイロードのないイベント
+      const emitter = new TestEmitter();
+      const listener = jest.fn();
+      emitter.on('done', listener).on('done', listener);
+      expect(emitter.listenerCount('done')).toBe(2);
+      emitter.send('done');
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+    it('on.03', async () => {
+      // リスナー内の例外は他のリスナーの呼び出しを妨げず、非同期に再送出される
+      const emitter = new TestEmitter();
+      const error = new Error('listener error');
+      const listener = jest.fn();
+      emitter.on('count', () => {
+        throw error;
+      });
+      emitter.on('count', listener);
+      const queueMicrotaskSpy = jest.spyOn(global, 'queueMicrotask').mockImplementation(() => {});
+      try {
+        emitter.send('count', 1);
+        expect(listener).toHaveBeenCalledWith(1);
+        expect(queueMicrotaskSpy).toHaveBeenCalledTimes(1);
+        expect(() => queueMicrotaskSpy.mock.calls[0][0]()).toThrow(error);
+      } finally {
+        queueMicrotaskSpy.mockRestore();
+      }
+    });
+  });
+  describe('once', () => {
+    it('once.01', () => {
+      // 1回のみ通知される
+      const emitter = new TestEmitter();
+      const counts: number[] = [];
+      emitter.once('count', count => counts.push(count));
+      emitter.send('count', 1);
+      emitter.send('count', 2);
+      expect(counts).toEqual([1]);
+      expect(emitter.listenerCount('count')).toBe(0);
+    });
+  });
+});
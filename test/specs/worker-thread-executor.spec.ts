@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { TaskTimeoutError, WorkerExitError } from '@/errors';
+import { WorkerThreadExecutor } from '@/worker-thread-executor';
+
+describe('@/worker-thread-executor.ts', () => {
+  let dir: string;
+  let modules: Record<string, string>;
+  let executor: WorkerThreadExecutor | undefined;
+  beforeAll(async () => {
+    // ワーカーで実行する処理モジュールはビルド済みの JavaScript として用意する
+    dir = await fs.mkdtemp(join(tmpdir(), 'worker-thread-executor-'));
+    const sources: Record<string, string> = {
+      'double.js': `
+        const { threadId } = require('worker_threads');
+        module.exports = (args, { dependencies }) => ({ value: args * 2, threadId, dependencies });
+      `,
+      'invert.mjs': `
+        export default (bytes, { transfer }) => {
+          const inverted = bytes.map(byte => 255 - byte);
+          transfer(inverted.buffer);
+          return { inverted, received: bytes.byteLength };
+        };
+      `,
+      'fail.js': `
+        module.exports = async message => {
+          throw new TypeError(message);
+        };
+      `,
+      'crash.js': `
+        module.exports = mode => new Promise(() => {
+          if (mode === 'exit') {
+            process.exit(3);
+          }
+          setTimeout(() => {
+            throw new RangeError('uncaught');
+          });
+        });
+      `,
+      'spin.js': `
+        module.exports = () => {
+          for (;;) {}
+        };
+      `
+    };
+    modules = {};
+    for (const [file, source] of Object.entries(sources)) {
+      await fs.writeFile(join(dir, file), source);
+      modules[file.split('.')[0]] = join(dir, file);
+    }
+  });
+  afterEach(async () => {
+    await executor?.terminate();
+    executor = undefined;
+  });
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  describe('executeAll', () => {
+    it('executeAll.01', async () => {
+      // 並列実行数までのワーカースレッドで実行し、ワーカーを再利用する
+      executor = new WorkerThreadExecutor(2, { modules });
+      executor.addAll([1, 2, 3, 4].map(args => ({ name: 'double', args })));
+      expect(executor.size()).toBe(4);
+      const results = await executor.executeAll<{ value: number; threadId: number }[]>();
+      expect(results.map(result => result.value)).toEqual([2, 4, 6, 8]);
+      const threadIds = new Set(results.map(result => result.threadId));
+      expect(threadIds.has(0)).toBe(false);
+      expect(threadIds.size).toBeLessThanOrEqual(2);
+      expect(() => executor!.add({ name: 'unknown' })).toThrow('Task "unknown" is not registered.');
+    });
+    it('executeAll.02', async () => {
+      // file: URL で指定した処理モジュール、依存する処理の結果を受け取る
+      executor = new WorkerThreadExecutor(2, { modules: { double: pathToFileURL(modules.double) } });
+      executor.add({ name: 'double', args: 1 }, { id: 'a' });
+      executor.add({ name: 'double', args: 2 }, { dependsOn: ['a'] });
+      const [, second] = await executor.executeAll();
+      expect(second.dependencies).toEqual({ a: { value: 2, threadId: expect.any(Number), dependencies: {} } });
+    });
+  });
+  describe('transfer', () => {
+    it('transfer.01', async () => {
+      // 引数・結果の ArrayBuffer を複製せずに転送する(ES Modules の処理モジュール)
+      executor = new WorkerThreadExecutor(1, { modules });
+      const bytes = new Uint8Array([0, 1, 254]);
+      const handle = executor.add<{ inverted: Uint8Array; received: number }>({ name: 'invert', args: bytes }, { transfer: [bytes.buffer] });
+      await executor.executeAll();
+      // 転送後は呼び出し元で使用できない
+      expect(bytes.byteLength).toBe(0);
+      const result = await handle.result;
+      expect(result.received).toBe(3);
+      expect([...result.inverted]).toEqual([255, 254, 1]);
+    });
+  });
+  describe('executeAllSettled', () => {
+    it('executeAllSettled.01', async () => {
+      // 処理モジュールで発生したエラーでrejectし、ワーカーは再利用する
+      executor = new WorkerThreadExecutor(1, { modules });
+      executor.add({ name: 'fail', args: 'invalid' });
+      executor.add({ name: 'double', args: 1 });
+      const [failed, fulfilled] = await executor.executeAllSettled();
+      expect(failed.status).toBe('rejected');
+      const reason = (failed as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(Error);
+      expect(reason.name).toBe('TypeError');
+      expect(reason.message).toBe('invalid');
+      expect(fulfilled).toEqual({ status: 'fulfilled', value: { value: 2, threadId: expect.any(Number), dependencies: {} } });
+    });
+    it('executeAllSettled.02', async () => {
+      // 異常終了したワーカーは破棄し、後続の処理は新たなワーカーで実行する
+      executor = new WorkerThreadExecutor(1, { modules });
+      executor.add({ name: 'double', args: 1 });
+      executor.add({ name: 'crash', args: 'exit' });
+      executor.add({ name: 'crash', args: 'throw' });
+      executor.add({ name: 'double', args: 2 });
+      const results = await executor.executeAllSettled();
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'rejected', 'fulfilled']);
+      const exited = (results[1] as PromiseRejectedResult).reason;
+      expect(exited).toBeInstanceOf(WorkerExitError);
+      expect(exited.exitCode).toBe(3);
+      const uncaught = (results[2] as PromiseRejectedResult).reason;
+      expect(uncaught.name).toBe('RangeError');
+      expect(uncaught.message).toBe('uncaught');
+      const [first, last] = [results[0], results[3]] as PromiseFulfilledResult<{ threadId: number }>[];
+      expect(last.value.threadId).not.toBe(first.value.threadId);
+    });
+  });
+  describe('timeoutMs', () => {
+    it('timeoutMs.01', async () => {
+      // タイムアウトした処理のワーカーは停止する
+      executor = new WorkerThreadExecutor(1, { modules, timeoutMs: 200 });
+      executor.add({ name: 'spin' });
+      executor.add({ name: 'double', args: 1 }, { timeoutMs: 5000 });
+      const results = await executor.executeAllSettled();
+      expect(results[0]).toEqual({ status: 'rejected', reason: new TaskTimeoutError(200) });
+      expect(results[1].status).toBe('fulfilled');
+    });
+  });
+  describe('abort', () => {
+    it('abort.01', async () => {
+      // 実行中の処理のワーカーを停止し、開始前の処理を取り止める
+      executor = new WorkerThreadExecutor(1, { modules });
+      executor.add({ name: 'spin' });
+      executor.add({ name: 'double', args: 1 });
+      setTimeout(() => executor!.abort('stop'), 200);
+      const results = await executor.executeAllSettled();
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect((results[0] as PromiseRejectedResult).reason.name).toBe('TaskAbortedError');
+      // 停止後も新たなワーカーで実行できる
+      executor.add({ name: 'double', args: 3 });
+      expect((await executor.executeAll())[0].value).toBe(6);
+    });
+  });
+});